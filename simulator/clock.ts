@@ -0,0 +1,92 @@
+import type { Clock, TimerHandle } from '../src/services/sync/clock';
+
+/**
+ * Virtual clock, passed to the sync engines and the hub as their Clock, so every
+ * heartbeat, retry and delivery runs on simulated time: a ten-minute event takes
+ * a few seconds and always happens in the same order.
+ */
+
+interface Timer {
+  id: number;
+  time: number;
+  callback: () => unknown;
+  interval?: number;
+}
+
+export interface VirtualClock extends Clock {
+  /** Run every timer due up to `time`, in order, then leave the clock at `time` */
+  runUntil(time: number): Promise<void>;
+  /** Number of timers still scheduled */
+  pending(): number;
+}
+
+// Let pending promise chains (async storage calls, handlers) settle before the
+// next timer fires. A few real macrotask turns cover the awaits in one handler.
+async function settle() {
+  for (let i = 0; i < 5; i++) {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+  }
+}
+
+export function createVirtualClock(start: number): VirtualClock {
+  let current = start;
+  let nextId = 1;
+  const timers: Map<number, Timer> = new Map();
+
+  const schedule = (callback: () => unknown, delay: number, interval?: number) => {
+    const id = nextId++;
+    timers.set(id, { id, time: current + Math.max(0, delay || 0), callback, interval });
+    return id;
+  };
+
+  const cancel = (id: unknown) => {
+    if (typeof id === 'number') timers.delete(id);
+  };
+
+  // Earliest timer at or before `time`; ties go to the one scheduled first
+  const nextDue = (time: number): Timer | undefined => {
+    let due: Timer | undefined;
+    for (const timer of timers.values()) {
+      if (timer.time > time) continue;
+      if (!due || timer.time < due.time || (timer.time === due.time && timer.id < due.id)) {
+        due = timer;
+      }
+    }
+    return due;
+  };
+
+  return {
+    now: () => current,
+
+    setTimeout: (callback, ms) => schedule(callback, ms) as unknown as TimerHandle,
+    clearTimeout: cancel,
+    setInterval: (callback, ms) =>
+      schedule(callback, ms, Math.max(1, ms || 0)) as unknown as TimerHandle,
+    clearInterval: cancel,
+
+    async runUntil(time: number) {
+      await settle();
+      for (let timer = nextDue(time); timer; timer = nextDue(time)) {
+        current = Math.max(current, timer.time);
+        if (timer.interval !== undefined) {
+          timer.time = current + timer.interval;
+        } else {
+          timers.delete(timer.id);
+        }
+
+        try {
+          const result = timer.callback();
+          if (result instanceof Promise) {
+            result.catch((error) => console.error('Timer callback failed:', error));
+          }
+        } catch (error) {
+          console.error('Timer callback failed:', error);
+        }
+        await settle();
+      }
+      current = Math.max(current, time);
+    },
+
+    pending: () => timers.size,
+  };
+}
@@ -0,0 +1,26 @@
+import type { Clock } from '../src/services/sync/clock';
+import { SyncEngine } from '../src/services/sync/engine';
+import { createMemoryStore } from '../src/services/sync/memoryStore';
+import type { MemoryHub } from '../src/services/sync/memoryTransport';
+import { createScanner, Scanner } from '../src/services/sync/scanner';
+
+/**
+ * A simulated gate: a sync engine with an in-memory store, talking to the others
+ * through the hub on the simulation's clock, and the scanner the app runs on it.
+ */
+export interface SimDevice {
+  name: string;
+  engine: SyncEngine;
+  scanner: Scanner;
+}
+
+export async function createDevice(name: string, hub: MemoryHub, clock: Clock): Promise<SimDevice> {
+  const engine = new SyncEngine({
+    storage: createMemoryStore(),
+    transport: hub.createTransport(name),
+    clock,
+  });
+  await engine.start();
+
+  return { name, engine, scanner: createScanner(engine) };
+}
@@ -0,0 +1,137 @@
+import { conflictKey, detectOneUseConflicts } from '../src/services/sync/conflicts';
+import { getActiveScans } from '../src/services/sync/tombstones';
+import { LocalState, ScanConflict } from '../src/services/sync/types';
+import { SimDevice } from './device';
+
+/**
+ * What a device ended up with, taken after the network has settled
+ */
+export interface DeviceSnapshot {
+  name: string;
+  deviceId: string;
+  state: LocalState;
+  conflicts: ScanConflict[];
+  config: unknown;
+}
+
+export function takeSnapshot(device: SimDevice): DeviceSnapshot {
+  return {
+    name: device.name,
+    deviceId: device.engine.getDeviceId(),
+    state: device.engine.getLocalState(),
+    conflicts: device.engine.getConflicts(),
+    config: device.engine.getJSONConfigState(),
+  };
+}
+
+// JSON with sorted keys, so equal objects compare equal whatever their key order
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) =>
+    inner && typeof inner === 'object' && !Array.isArray(inner)
+      ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+      : inner
+  );
+}
+
+const scanIds = (state: LocalState) =>
+  Object.values(state)
+    .flatMap((pass) => pass.scans.map((scan) => scan.scanId))
+    .sort();
+
+const tombstoneIds = (state: LocalState) =>
+  Object.values(state)
+    .flatMap((pass) => (pass.tombstones ?? []).map((tombstone) => tombstone.scanId))
+    .sort();
+
+const conflictSummary = (conflicts: ScanConflict[]) =>
+  conflicts
+    .map((conflict) => `${conflictKey(conflict.qrCode, conflict.date)}=${conflict.winnerScanId}`)
+    .sort();
+
+/**
+ * Have all devices reached the same state? Returns what still differs.
+ */
+export function checkConvergence(snapshots: DeviceSnapshot[]): string[] {
+  const [reference, ...others] = snapshots;
+  const problems: string[] = [];
+
+  for (const other of others) {
+    const pair = `${reference.name} vs ${other.name}`;
+    const a = scanIds(reference.state);
+    const b = scanIds(other.state);
+    if (canonical(a) !== canonical(b)) {
+      const missing = a.filter((id) => !b.includes(id)).length;
+      const extra = b.filter((id) => !a.includes(id)).length;
+      problems.push(`${pair}: scan sets differ (${missing} missing, ${extra} extra)`);
+    }
+    if (canonical(tombstoneIds(reference.state)) !== canonical(tombstoneIds(other.state))) {
+      problems.push(`${pair}: tombstone sets differ`);
+    }
+    if (
+      canonical(conflictSummary(reference.conflicts)) !==
+      canonical(conflictSummary(other.conflicts))
+    ) {
+      problems.push(`${pair}: recorded conflicts differ`);
+    }
+    if (canonical(reference.config) !== canonical(other.config)) {
+      problems.push(`${pair}: JSON configs differ`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * One-use invariants:
+ * - no device accepted a one-use pass twice on the same date by itself
+ * - every one-use pass accepted on more than one device is recorded as a
+ *   conflict everywhere, with the same deterministic winner
+ * - every scan a device accepted reached every device
+ */
+export function checkOneUse(snapshots: DeviceSnapshot[], acceptedScanIds: string[]): string[] {
+  const problems: string[] = [];
+
+  for (const snapshot of snapshots) {
+    const held = new Set(scanIds(snapshot.state));
+    const lost = acceptedScanIds.filter((id) => !held.has(id));
+    if (lost.length > 0) {
+      problems.push(`${snapshot.name}: ${lost.length} accepted scans never arrived`);
+    }
+
+    const recorded = new Map(
+      snapshot.conflicts.map((conflict) => [conflictKey(conflict.qrCode, conflict.date), conflict])
+    );
+
+    for (const [qrCode, pass] of Object.entries(snapshot.state)) {
+      if (pass.type !== 'one-use') continue;
+      const active = getActiveScans(pass);
+
+      const perOrigin = new Map<string, number>();
+      for (const scan of active) {
+        const key = `${scan.deviceId}|${scan.date}`;
+        perOrigin.set(key, (perOrigin.get(key) ?? 0) + 1);
+      }
+      for (const [key, count] of perOrigin) {
+        if (count > 1) {
+          const [origin, date] = key.split('|');
+          problems.push(
+            `${snapshot.name}: device ${origin.substring(0, 8)} accepted one-use ${qrCode} ${count}x on ${date}`
+          );
+        }
+      }
+
+      for (const expected of detectOneUseConflicts(qrCode, active, 0)) {
+        const conflict = recorded.get(conflictKey(qrCode, expected.date));
+        if (!conflict) {
+          problems.push(
+            `${snapshot.name}: double entry of ${qrCode} on ${expected.date} not recorded`
+          );
+        } else if (conflict.winnerScanId !== expected.winnerScanId) {
+          problems.push(`${snapshot.name}: wrong winner for ${qrCode} on ${expected.date}`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,125 @@
+import { Random } from './random';
+
+/**
+ * Simulated network conditions for the in-memory hub: every message between two
+ * devices is independently lost, duplicated, delayed or reordered, and
+ * partitions cut the devices into groups that cannot hear each other.
+ */
+export interface NetworkConditions {
+  /** Probability a message is lost */
+  loss: number;
+  /** Probability a message arrives twice */
+  duplicate: number;
+  /** Probability a message is held back long enough to arrive out of order */
+  reorder: number;
+  /** Base one-way latency (ms) */
+  latencyMs: number;
+  /** Random extra latency on top of the base (ms) */
+  jitterMs: number;
+}
+
+export interface Partition {
+  start: number;
+  end: number;
+  /** Addresses in each group; devices only hear others in their own group */
+  groups: string[][];
+}
+
+export interface NetworkStats {
+  sent: number;
+  delivered: number;
+  dropped: number;
+  duplicated: number;
+  reordered: number;
+  partitioned: number;
+}
+
+export const PERFECT_NETWORK: NetworkConditions = {
+  loss: 0,
+  duplicate: 0,
+  reorder: 0,
+  latencyMs: 0,
+  jitterMs: 0,
+};
+
+export interface SimulatedNetwork {
+  /** Route function for createMemoryHub */
+  route(from: string, to: string): number[];
+  setConditions(conditions: NetworkConditions): void;
+  addPartition(partition: Partition): void;
+  /** End every partition now */
+  heal(): void;
+  stats: NetworkStats;
+}
+
+export function createSimulatedNetwork(
+  random: Random,
+  now: () => number,
+  initial: NetworkConditions
+): SimulatedNetwork {
+  let conditions = initial;
+  let partitions: Partition[] = [];
+  const stats: NetworkStats = {
+    sent: 0,
+    delivered: 0,
+    dropped: 0,
+    duplicated: 0,
+    reordered: 0,
+    partitioned: 0,
+  };
+
+  const separated = (from: string, to: string) => {
+    const time = now();
+    return partitions.some(
+      (partition) =>
+        time >= partition.start &&
+        time < partition.end &&
+        !partition.groups.some((group) => group.includes(from) && group.includes(to))
+    );
+  };
+
+  const delay = () => {
+    let ms = conditions.latencyMs + random.next() * conditions.jitterMs;
+    if (random.chance(conditions.reorder)) {
+      // Long enough to land behind messages sent after it
+      ms += conditions.latencyMs + conditions.jitterMs + random.int(50, 500);
+      stats.reordered++;
+    }
+    return Math.round(ms);
+  };
+
+  return {
+    route(from, to) {
+      stats.sent++;
+      if (separated(from, to)) {
+        stats.partitioned++;
+        return [];
+      }
+      if (random.chance(conditions.loss)) {
+        stats.dropped++;
+        return [];
+      }
+      const delays = [delay()];
+      if (random.chance(conditions.duplicate)) {
+        delays.push(delay());
+        stats.duplicated++;
+      }
+      stats.delivered += delays.length;
+      return delays;
+    },
+
+    setConditions(next) {
+      conditions = next;
+    },
+
+    addPartition(partition) {
+      partitions.push(partition);
+    },
+
+    heal() {
+      partitions = [];
+    },
+
+    stats,
+  };
+}
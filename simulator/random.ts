@@ -0,0 +1,59 @@
+/**
+ * Seeded pseudo-random numbers (mulberry32). Everything random in a simulation
+ * run — scan timing, packet fate, device ids, key material — comes from here, so
+ * a seed reproduces a run exactly.
+ */
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: T[]): T;
+  bytes(length: number): Uint8Array;
+  uuid(): string;
+}
+
+export function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const bytes = (length: number) => {
+    const out = new Uint8Array(length);
+    for (let i = 0; i < length; i++) out[i] = Math.floor(next() * 256);
+    return out;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    bytes,
+    uuid() {
+      const b = bytes(16);
+      b[6] = (b[6] & 0x0f) | 0x40; // version 4
+      b[8] = (b[8] & 0x3f) | 0x80; // RFC 4122 variant
+      const hex = Array.from(b, (x) => x.toString(16).padStart(2, '0')).join('');
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    },
+  };
+}
+
+// The generator the native-module shims draw from (ids, keys, nonces)
+let shared: Random = createRandom(0);
+
+export function setSharedRandom(random: Random) {
+  shared = random;
+}
+
+export function getSharedRandom(): Random {
+  return shared;
+}
@@ -0,0 +1,11 @@
+import { getSharedRandom } from '../random';
+
+// expo-crypto, drawing from the simulation's seeded generator
+
+export function randomUUID(): string {
+  return getSharedRandom().uuid();
+}
+
+export function getRandomBytes(length: number): Uint8Array {
+  return getSharedRandom().bytes(length);
+}
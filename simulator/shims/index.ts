@@ -0,0 +1,15 @@
+import Module from 'module';
+import path from 'path';
+
+/**
+ * Point expo-crypto, the sync engine's one native import, at its Node stand-in.
+ * Imported before anything that loads the engine.
+ */
+
+const EXPO_CRYPTO = path.resolve(__dirname, 'expoCrypto.ts');
+
+const loader = Module as any;
+const resolve = loader._resolveFilename;
+loader._resolveFilename = function (request: string, ...rest: unknown[]) {
+  return resolve.call(this, request === 'expo-crypto' ? EXPO_CRYPTO : request, ...rest);
+};
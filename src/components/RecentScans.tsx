@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { getRecentScanReplication } from '../services/sync';
+import { ScanReplicationStatus } from '../services/sync/types';
+
+const COLORS = {
+  card: '#18181b',
+  primary: '#f4f4f5',
+  secondary: '#71717a',
+  success: '#22c55e',
+  warning: '#eab308',
+  error: '#ef4444',
+  border: '#27272a',
+};
+
+/**
+ * Short description of how far a scan has replicated ("Delivered to 2 of 3 gates")
+ */
+export function replicationLabel(status: ScanReplicationStatus): string {
+  if (status.peerCount === 0) return 'No other gates reachable';
+  if (status.state === 'replicated') return `Delivered to all ${status.peerCount} gates`;
+  if (status.state === 'pending') return `Sending to ${status.peerCount} gates...`;
+  return `Delivered to ${status.deliveredTo} of ${status.peerCount} gates`;
+}
+
+export function replicationColor(status: ScanReplicationStatus): string {
+  if (status.state === 'replicated') return COLORS.success;
+  if (status.state === 'partial') return COLORS.warning;
+  return COLORS.error;
+}
+
+export default function RecentScans() {
+  const [scans, setScans] = useState<ScanReplicationStatus[]>(getRecentScanReplication(5));
+
+  useEffect(() => {
+    // Same cadence as the sync status panel
+    const interval = setInterval(() => setScans(getRecentScanReplication(5)), 2000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (scans.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Recent scans</Text>
+      {scans.map((scan) => (
+        <View key={scan.scanId} style={styles.row}>
+          <View style={[styles.statusDot, { backgroundColor: replicationColor(scan) }]} />
+          <Text style={styles.code}>{scan.qrCode}</Text>
+          <Text style={styles.time}>{new Date(scan.timestamp).toLocaleTimeString()}</Text>
+          <Text style={styles.status}>{replicationLabel(scan)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '80%',
+    backgroundColor: COLORS.card,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginTop: 12,
+    borderColor: COLORS.border,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.primary,
+    letterSpacing: -0.2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  code: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: COLORS.primary,
+    fontFamily: 'monospace',
+  },
+  time: {
+    fontSize: 11,
+    color: COLORS.secondary,
+  },
+  status: {
+    flex: 1,
+    fontSize: 11,
+    color: COLORS.secondary,
+    textAlign: 'right',
+  },
+});
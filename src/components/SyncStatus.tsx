@@ -5,6 +5,9 @@ import {
   getTimeSinceLastSync,
   getPendingBroadcastsCount,
   getPendingAcksCount,
+  getRejectedMessagesCount,
+  getConflictsCount,
+  getSkewedPeers,
 } from "../services/sync";
 
 const COLORS = {
@@ -24,6 +27,10 @@ export default function SyncStatus() {
   const [timeSinceSync, setTimeSinceSync] = useState(0);
   const [pendingBroadcasts, setPendingBroadcasts] = useState(0);
   const [pendingAcks, setPendingAcks] = useState(0);
+  const [rejectedMessages, setRejectedMessages] = useState(0);
+  const [conflicts, setConflicts] = useState(0);
+  const [skewedPeers, setSkewedPeers] = useState(0);
+  const [maxSkewSeconds, setMaxSkewSeconds] = useState(0);
 
   useEffect(() => {
     // Update status every 2 seconds (faster updates for better monitoring)
@@ -33,6 +40,13 @@ export default function SyncStatus() {
       const pending = await getPendingBroadcastsCount();
       setPendingBroadcasts(pending);
       setPendingAcks(getPendingAcksCount());
+      setRejectedMessages(getRejectedMessagesCount());
+      setConflicts(getConflictsCount());
+      const skewed = getSkewedPeers();
+      setSkewedPeers(skewed.length);
+      setMaxSkewSeconds(
+        Math.round(Math.max(0, ...skewed.map((peer) => Math.abs(peer.clockOffset ?? 0))) / 1000)
+      );
     }, 2000);
 
     return () => clearInterval(interval);
@@ -62,6 +76,13 @@ export default function SyncStatus() {
         <Text style={styles.statusText}>{syncStatus}</Text>
       </View>
 
+      {/* Clock skew warning */}
+      {skewedPeers > 0 && (
+        <Text style={styles.warningText}>
+          Clock off by up to {maxSkewSeconds}s on {skewedPeers} {skewedPeers === 1 ? "device" : "devices"}
+        </Text>
+      )}
+
       {/* Metrics */}
       <View style={styles.divider} />
       <View style={styles.metricsRow}>
@@ -91,6 +112,28 @@ export default function SyncStatus() {
             </View>
           </>
         )}
+        {rejectedMessages > 0 && (
+          <>
+            <View style={styles.metricDivider} />
+            <View style={styles.metric}>
+              <Text style={[styles.metricValue, { color: COLORS.error }]}>
+                {rejectedMessages}
+              </Text>
+              <Text style={styles.metricLabel}>Rejected</Text>
+            </View>
+          </>
+        )}
+        {conflicts > 0 && (
+          <>
+            <View style={styles.metricDivider} />
+            <View style={styles.metric}>
+              <Text style={[styles.metricValue, { color: COLORS.warning }]}>
+                {conflicts}
+              </Text>
+              <Text style={styles.metricLabel}>Conflicts</Text>
+            </View>
+          </>
+        )}
       </View>
     </View>
   );
@@ -126,6 +169,11 @@ const styles = StyleSheet.create({
     color: COLORS.primary,
     letterSpacing: -0.2,
   },
+  warningText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: COLORS.warning,
+  },
   divider: {
     height: 1,
     backgroundColor: COLORS.border,
@@ -4,11 +4,15 @@ import { createStackNavigator } from '@react-navigation/stack';
 import HomeScreen from '../screens/HomeScreen';
 import QRScanScreen from '../screens/QRScanScreen';
 import StatsScreen from '../screens/StatsScreen';
+import PairingScreen from '../screens/PairingScreen';
+import PassEditorScreen from '../screens/PassEditorScreen';
 
 export type RootStackParamList = {
   Home: undefined;
-  QRScan: undefined;
+  QRScan: { mode?: 'scan' | 'pair' } | undefined;
   Stats: undefined;
+  Pairing: undefined;
+  PassEditor: { qrCode?: string } | undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -46,6 +50,16 @@ export default function AppNavigator() {
           component={StatsScreen}
           options={{ headerShown: false }}
         />
+        <Stack.Screen
+          name="Pairing"
+          component={PairingScreen}
+          options={{ headerShown: false }}
+        />
+        <Stack.Screen
+          name="PassEditor"
+          component={PassEditorScreen}
+          options={{ headerShown: false }}
+        />
       </Stack.Navigator>
   );
 }
@@ -3,7 +3,8 @@ import { StatusBar } from "expo-status-bar";
 import { Pressable, Text, View, ScrollView, RefreshControl } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import SyncStatus from "../components/SyncStatus";
-import { Scan, ChartBar, ChevronRight, Camera ,AlertCircle} from "lucide-react-native";
+import RecentScans from "../components/RecentScans";
+import { Scan, ChartBar, ChevronRight, Camera ,AlertCircle, QrCode} from "lucide-react-native";
 import type { StackScreenProps } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useState } from "react";
@@ -148,9 +149,31 @@ export default function HomeScreen({ navigation }: Props) {
             <ChevronRight color="#71717a" size={24} strokeWidth={1.5} />
           </View>
         </Pressable>
+
+        {/* Event Pairing Button */}
+        <Pressable
+          onPress={() => navigation.navigate('Pairing')}
+          className="w-full max-w-[420px] bg-zinc-900 rounded-xl border border-zinc-800 active:bg-zinc-800"
+        >
+          <View className="flex-row items-center p-4 gap-3.5">
+            <View className="w-11 h-11 rounded-lg bg-zinc-700 items-center justify-center">
+              <QrCode color="white" size={22} />
+            </View>
+            <View className="flex-1 gap-0.5">
+              <Text className="text-[15px] font-semibold text-zinc-50">
+                Event Pairing
+              </Text>
+              <Text className="text-[13px] text-zinc-400 font-normal">
+                Pair this device with an event
+              </Text>
+            </View>
+            <ChevronRight color="#71717a" size={24} strokeWidth={1.5} />
+          </View>
+        </Pressable>
           </View>
 
           <SyncStatus />
+          <RecentScans />
         </View>
       </ScrollView>
     </SafeAreaView>
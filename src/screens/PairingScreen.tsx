@@ -0,0 +1,297 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Switch, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import type { StackScreenProps } from '@react-navigation/stack';
+import QRCode from 'react-native-qrcode-svg';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import {
+  createEvent,
+  rotateEventKey,
+  getKeyRotationStatus,
+  getEnrollment,
+  isEnrollmentAdmin,
+  getStrictModeConfig,
+  setStrictModeConfig,
+} from '../services/sync';
+import { encodePairingPayload } from '../services/sync/pairing';
+import { EventEnrollment, KeyRotationStatus, StrictModeConfig } from '../services/sync/types';
+
+type Props = StackScreenProps<RootStackParamList, 'Pairing'>;
+
+const COLORS = {
+  background: '#000000',
+  card: 'rgba(255,255,255,0.05)',
+  border: 'rgba(255,255,255,0.1)',
+  primary: '#e2e8f0',
+  secondary: '#94a3b8',
+  muted: '#64748b',
+  success: '#4ade80',
+  accent: '#007AFF',
+  warning: '#eab308',
+};
+
+export default function PairingScreen({ navigation }: Props) {
+  const [enrollment, setEnrollment] = useState<EventEnrollment | null>(getEnrollment());
+  const [isAdmin, setIsAdmin] = useState(isEnrollmentAdmin());
+  const [busy, setBusy] = useState(false);
+  const [strictMode, setStrictMode] = useState<StrictModeConfig>(getStrictModeConfig());
+  const [keyRotation, setKeyRotation] = useState<KeyRotationStatus | null>(getKeyRotationStatus());
+
+  useEffect(() => {
+    // The rotated key goes live once every connected scanner holds it
+    const interval = setInterval(() => {
+      setKeyRotation(getKeyRotationStatus());
+      setEnrollment(getEnrollment());
+    }, 2000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Refresh when coming back from the pairing scanner
+  useFocusEffect(
+    useCallback(() => {
+      setEnrollment(getEnrollment());
+      setIsAdmin(isEnrollmentAdmin());
+      setStrictMode(getStrictModeConfig());
+    }, [])
+  );
+
+  const runAdminAction = async (action: () => Promise<EventEnrollment>) => {
+    setBusy(true);
+    try {
+      setEnrollment(await action());
+      setIsAdmin(isEnrollmentAdmin());
+      setKeyRotation(getKeyRotationStatus());
+    } catch (error) {
+      console.error('Pairing action failed:', error);
+      Alert.alert('Pairing', error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateStrictMode = async (config: Partial<StrictModeConfig>) => {
+    try {
+      await setStrictModeConfig(config);
+      setStrictMode(getStrictModeConfig());
+    } catch (error) {
+      console.error('Failed to update strict mode:', error);
+    }
+  };
+
+  const confirmCreateEvent = () => {
+    Alert.alert(
+      'Create new event',
+      enrollment
+        ? 'This device will leave its current event and stop syncing with its devices.'
+        : 'This device becomes the admin for a new event.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Create', onPress: () => runAdminAction(createEvent) },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.topBar}>
+        <Pressable onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </Pressable>
+        <Text style={styles.title}>Event Pairing</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Current enrollment */}
+        <View style={styles.card}>
+          {enrollment ? (
+            <>
+              <Row label="Event" value={`${enrollment.eventId.substring(0, 8)}...`} />
+              <Row label="Config version" value={`v${enrollment.configVersion}`} />
+              <Row label="Role" value={isAdmin ? 'Admin' : 'Scanner'} />
+              {keyRotation && (
+                <Row
+                  label={`Rolling out v${keyRotation.keyId}`}
+                  value={`${keyRotation.holders.length} of ${keyRotation.holders.length + keyRotation.pending.length} scanners`}
+                />
+              )}
+            </>
+          ) : (
+            <Text style={styles.warning}>
+              Not paired. This device syncs with anyone on the network.
+            </Text>
+          )}
+        </View>
+
+        {/* Strict mode for one-use passes */}
+        <View style={styles.card}>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Strict one-use check</Text>
+            <Switch
+              value={strictMode.enabled}
+              onValueChange={(enabled) => updateStrictMode({ enabled })}
+            />
+          </View>
+          {strictMode.enabled && (
+            <Pressable
+              style={styles.row}
+              onPress={() =>
+                updateStrictMode({
+                  partitionPolicy: strictMode.partitionPolicy === 'reject' ? 'accept' : 'reject',
+                })
+              }>
+              <Text style={styles.rowLabel}>Without quorum</Text>
+              <Text style={styles.rowValue}>
+                {strictMode.partitionPolicy === 'reject' ? 'Reject' : 'Accept'}
+              </Text>
+            </Pressable>
+          )}
+          <Text style={styles.hint}>
+            One-use passes are confirmed with a majority of reachable scanners before entry.
+          </Text>
+        </View>
+
+        {/* Pairing QR (admin only) */}
+        {enrollment && isAdmin && (
+          <View style={styles.qrCard}>
+            <View style={styles.qrBackground}>
+              <QRCode value={encodePairingPayload(enrollment)} size={220} />
+            </View>
+            <Text style={styles.hint}>
+              Scan this code from the Event Pairing screen of each scanner
+            </Text>
+          </View>
+        )}
+
+        {/* Actions */}
+        <Pressable
+          style={styles.button}
+          onPress={() => navigation.navigate('QRScan', { mode: 'pair' })}
+          disabled={busy}>
+          <Text style={styles.buttonText}>Scan Pairing QR</Text>
+        </Pressable>
+
+        {enrollment && isAdmin && (
+          <Pressable
+            style={[styles.button, styles.secondaryButton]}
+            onPress={() => runAdminAction(rotateEventKey)}
+            disabled={busy || keyRotation !== null}>
+            <Text style={styles.buttonText}>
+              {keyRotation ? 'Rotating Event Key...' : 'Rotate Event Key'}
+            </Text>
+          </Pressable>
+        )}
+
+        <Pressable
+          style={[styles.button, styles.secondaryButton]}
+          onPress={confirmCreateEvent}
+          disabled={busy}>
+          <Text style={styles.buttonText}>Create New Event</Text>
+        </Pressable>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={styles.rowValue}>{value}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: COLORS.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: COLORS.primary,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowLabel: {
+    color: COLORS.secondary,
+    fontSize: 14,
+  },
+  rowValue: {
+    color: COLORS.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+  warning: {
+    color: COLORS.warning,
+    fontSize: 14,
+  },
+  qrCard: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  qrBackground: {
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 12,
+  },
+  hint: {
+    color: COLORS.muted,
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: COLORS.accent,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import type { StackScreenProps } from '@react-navigation/stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { getPassDefinition, isEnrollmentAdmin, savePassDefinition } from '../services/sync';
+import { PassDefinition } from '../services/sync/types';
+
+type Props = StackScreenProps<RootStackParamList, 'PassEditor'>;
+
+const DATE_LABELS = {
+  '14nov': '14 Nov',
+  '15nov': '15 Nov',
+  '16nov': '16 Nov',
+} as const;
+
+const COLORS = {
+  background: '#000000',
+  card: 'rgba(255,255,255,0.05)',
+  border: 'rgba(255,255,255,0.1)',
+  primary: '#e2e8f0',
+  secondary: '#94a3b8',
+  muted: '#64748b',
+  success: '#4ade80',
+  accent: '#007AFF',
+  warning: '#eab308',
+};
+
+export default function PassEditorScreen({ navigation, route }: Props) {
+  const existing = route.params?.qrCode ? getPassDefinition(route.params.qrCode) : undefined;
+  const isAdmin = isEnrollmentAdmin();
+
+  const [qrCode, setQrCode] = useState(existing?.qrCode ?? '');
+  const [type, setType] = useState<PassDefinition['type']>(existing?.type ?? 'one-use');
+  const [allowedDates, setAllowedDates] = useState<string[]>(
+    existing?.allowedDates ?? Object.keys(DATE_LABELS)
+  );
+  const [holder, setHolder] = useState(existing?.metadata?.holder ?? '');
+  const [note, setNote] = useState(existing?.metadata?.note ?? '');
+  const [busy, setBusy] = useState(false);
+
+  const toggleDate = (date: string) => {
+    setAllowedDates((dates) =>
+      dates.includes(date) ? dates.filter((d) => d !== date) : [...dates, date]
+    );
+  };
+
+  const save = async () => {
+    if (!existing && getPassDefinition(qrCode.trim())) {
+      Alert.alert('Add pass', `${qrCode.trim()} already exists. Edit it from the stats screen.`);
+      return;
+    }
+
+    const metadata: Record<string, string> = {};
+    if (holder.trim()) metadata.holder = holder.trim();
+    if (note.trim()) metadata.note = note.trim();
+
+    setBusy(true);
+    try {
+      await savePassDefinition({
+        qrCode,
+        type,
+        // Keep the event's date order regardless of the order they were toggled in
+        allowedDates: Object.keys(DATE_LABELS).filter((date) => allowedDates.includes(date)),
+        metadata,
+      });
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to save pass:', error);
+      Alert.alert('Save pass', error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.topBar}>
+        <Pressable onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </Pressable>
+        <Text style={styles.title}>{existing ? 'Edit Pass' : 'Add Pass'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {!isAdmin && (
+          <Text style={styles.warning}>Only the event admin can add or edit passes.</Text>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.label}>QR code</Text>
+          <TextInput
+            style={[styles.input, existing && styles.inputReadOnly]}
+            value={qrCode}
+            onChangeText={setQrCode}
+            editable={!existing}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            placeholder="SAT25..."
+            placeholderTextColor={COLORS.muted}
+          />
+
+          <Text style={styles.label}>Type</Text>
+          <View style={styles.options}>
+            {(['one-use', 'infinite'] as const).map((option) => (
+              <Pressable
+                key={option}
+                style={[styles.option, type === option && styles.optionActive]}
+                onPress={() => setType(option)}>
+                <Text style={[styles.optionText, type === option && styles.optionTextActive]}>
+                  {option === 'one-use' ? 'One-Use' : 'Infinite'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Valid on</Text>
+          <View style={styles.options}>
+            {Object.entries(DATE_LABELS).map(([date, label]) => {
+              const active = allowedDates.includes(date);
+              return (
+                <Pressable
+                  key={date}
+                  style={[styles.option, active && styles.optionActive]}
+                  onPress={() => toggleDate(date)}>
+                  <Text style={[styles.optionText, active && styles.optionTextActive]}>
+                    {label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Holder</Text>
+          <TextInput
+            style={styles.input}
+            value={holder}
+            onChangeText={setHolder}
+            placeholder="Name on the pass"
+            placeholderTextColor={COLORS.muted}
+          />
+
+          <Text style={styles.label}>Note</Text>
+          <TextInput
+            style={styles.input}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Optional"
+            placeholderTextColor={COLORS.muted}
+          />
+        </View>
+
+        <Pressable
+          style={[styles.button, (!isAdmin || busy || !qrCode.trim()) && styles.buttonDisabled]}
+          onPress={save}
+          disabled={!isAdmin || busy || !qrCode.trim()}>
+          <Text style={styles.buttonText}>Save Pass</Text>
+        </Pressable>
+
+        <Text style={styles.hint}>Changes are sent to every scanner in the event.</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  topBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  backButtonText: {
+    color: COLORS.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  title: {
+    color: COLORS.primary,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  placeholder: {
+    width: 60,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    gap: 8,
+  },
+  label: {
+    color: COLORS.secondary,
+    fontSize: 14,
+  },
+  input: {
+    color: COLORS.primary,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  inputReadOnly: {
+    color: COLORS.muted,
+    fontFamily: 'monospace',
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    alignItems: 'center',
+  },
+  optionActive: {
+    backgroundColor: 'rgba(74,222,128,0.15)',
+    borderColor: COLORS.success,
+  },
+  optionText: {
+    color: COLORS.secondary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionTextActive: {
+    color: COLORS.success,
+  },
+  warning: {
+    color: COLORS.warning,
+    fontSize: 14,
+  },
+  hint: {
+    color: COLORS.muted,
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: COLORS.accent,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,9 +1,11 @@
 import { BarcodeScanningResult, CameraView } from "expo-camera";
 import { Platform, StatusBar, StyleSheet, View, Text, Animated, Pressable } from "react-native";
 import { useState, useRef, useEffect } from "react";
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { SafeAreaView } from "react-native-safe-area-context";
-import { handleScannedQRCode } from "../services/sync";
+import { handleScannedQRCode, handlePairingQRCode, getScanReplicationStatus } from "../services/sync";
+import { replicationLabel } from "../components/RecentScans";
+import { RootStackParamList } from "../navigation/AppNavigator";
 
 const COLORS = {
   primary: "#2563eb",
@@ -18,12 +20,16 @@ const COLORS = {
 type ScanFeedback = {
   type: "success" | "error" | "warning";
   message: string;
+  scanId?: string;
 };
 
 export default function QRScanScreen() {
   const navigation = useNavigation();
+  const route = useRoute<RouteProp<RootStackParamList, 'QRScan'>>();
+  const isPairing = route.params?.mode === "pair";
   const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
   const [isScanning, setIsScanning] = useState(true);
+  const [replication, setReplication] = useState<string | null>(null);
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.9)).current;
 
@@ -38,6 +44,23 @@ export default function QRScanScreen() {
     }
   }, [isScanning]);
 
+  // Follow the accepted scan as other gates acknowledge it
+  useEffect(() => {
+    const scanId = feedback?.scanId;
+    if (!scanId) {
+      setReplication(null);
+      return;
+    }
+
+    const update = () => {
+      const status = getScanReplicationStatus(scanId);
+      setReplication(status ? replicationLabel(status) : null);
+    };
+    update();
+    const interval = setInterval(update, 300);
+    return () => clearInterval(interval);
+  }, [feedback]);
+
   // Animate feedback message
   useEffect(() => {
     if (feedback) {
@@ -72,6 +95,11 @@ export default function QRScanScreen() {
     setIsScanning(false);
     console.log("Scanned:", data);
 
+    if (isPairing) {
+      await handlePairingScan(data);
+      return;
+    }
+
     try {
       const result = await handleScannedQRCode(data);
 
@@ -80,6 +108,7 @@ export default function QRScanScreen() {
         setFeedback({
           type: "success",
           message: `Scan accepted${result.todayScansCount !== undefined ? ` • ${result.todayScansCount + 1} today` : ""}`,
+          scanId: result.scanId,
         });
 
         // Go back after short delay
@@ -103,6 +132,27 @@ export default function QRScanScreen() {
     }
   };
 
+  const handlePairingScan = async (data: string) => {
+    const result = await handlePairingQRCode(data);
+
+    if (result.paired) {
+      setFeedback({
+        type: "success",
+        message: `Paired with event ${result.eventId?.substring(0, 8)}`,
+      });
+
+      // Go back after short delay
+      setTimeout(() => {
+        if (navigation.canGoBack()) navigation.goBack();
+      }, 1500);
+    } else {
+      setFeedback({
+        type: "error",
+        message: result.reason || "Pairing failed",
+      });
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       {Platform.OS === "android" ? <StatusBar hidden /> : null}
@@ -127,7 +177,7 @@ export default function QRScanScreen() {
           >
             <Text style={styles.backButtonText}>← Back</Text>
           </Pressable>
-          <Text style={styles.title}>Scan QR Code</Text>
+          <Text style={styles.title}>{isPairing ? "Scan Pairing QR" : "Scan QR Code"}</Text>
           <View style={styles.placeholder} />
         </View>
 
@@ -140,7 +190,9 @@ export default function QRScanScreen() {
             <View style={[styles.corner, styles.cornerBottomRight]} />
           </View>
           <Text style={styles.instruction}>
-            Position QR code within frame
+            {isPairing
+              ? "Scan the pairing QR on the admin device"
+              : "Position QR code within frame"}
           </Text>
         </View>
 
@@ -164,7 +216,12 @@ export default function QRScanScreen() {
             <Text style={styles.feedbackIcon}>
               {feedback.type === "success" ? "✓" : "✗"}
             </Text>
-            <Text style={styles.feedbackText}>{feedback.message}</Text>
+            <View style={styles.feedbackBody}>
+              <Text style={styles.feedbackText}>{feedback.message}</Text>
+              {replication && (
+                <Text style={styles.replicationText}>{replication}</Text>
+              )}
+            </View>
           </Animated.View>
         )}
 
@@ -292,11 +349,19 @@ const styles = StyleSheet.create({
     color: COLORS.background,
     fontWeight: "700",
   },
+  feedbackBody: {
+    flex: 1,
+    gap: 4,
+  },
   feedbackText: {
     color: COLORS.background,
     fontSize: 16,
     fontWeight: "600",
-    flex: 1,
+  },
+  replicationText: {
+    color: COLORS.background,
+    fontSize: 13,
+    opacity: 0.9,
   },
   processingContainer: {
     position: "absolute",
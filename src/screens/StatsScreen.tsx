@@ -1,8 +1,24 @@
-import { getLocalState, getJSONConfigState } from "../services/sync";
-import { LocalState, PassState } from "../services/sync/types";
-import { useEffect, useState } from "react";
-import { Pressable, ScrollView, StyleSheet, View, Text } from "react-native";
+import {
+  getLocalState,
+  getJSONConfigState,
+  getConflicts,
+  voidScan,
+  getRevokedPasses,
+  revokePass,
+  restorePass,
+  isEnrollmentAdmin,
+  getPassDefinitions,
+} from "../services/sync";
+import { getActiveScans } from "../services/sync/tombstones";
+import { LocalState, PassDefinition, PassRevocation, PassState, ScanConflict } from "../services/sync/types";
+import { useCallback, useState } from "react";
+import { Alert, Pressable, ScrollView, StyleSheet, View, Text } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { useFocusEffect } from "@react-navigation/native";
+import type { StackScreenProps } from "@react-navigation/stack";
+import { RootStackParamList } from "../navigation/AppNavigator";
+
+type Props = StackScreenProps<RootStackParamList, "Stats">;
 
 type PassType = "infinite" | "one-use";
 
@@ -30,10 +46,11 @@ const transformToPassEntry = (passState: PassState | undefined, qrCode: string,
     };
   }
 
-  // Count scans per date from actual scan events
-  const scansBy14nov = passState.scans.filter(s => s.date === "14nov").length;
-  const scansBy15nov = passState.scans.filter(s => s.date === "15nov").length;
-  const scansBy16nov = passState.scans.filter(s => s.date === "16nov").length;
+  // Count scans per date from actual scan events (voided scans don't count)
+  const activeScans = getActiveScans(passState);
+  const scansBy14nov = activeScans.filter(s => s.date === "14nov").length;
+  const scansBy15nov = activeScans.filter(s => s.date === "15nov").length;
+  const scansBy16nov = activeScans.filter(s => s.date === "16nov").length;
 
   return {
     type: passState.type,
@@ -41,7 +58,7 @@ const transformToPassEntry = (passState: PassState | undefined, qrCode: string,
     "15nov": scansBy15nov > 0,
     "16nov": scansBy16nov > 0,
     ...(passState.type === "infinite" && {
-      count: passState.scans.length,
+      count: activeScans.length,
     }),
   };
 };
@@ -62,17 +79,91 @@ const COLORS = {
   success: "#4ade80",
   accent: "#007AFF",
   badgeBg: "#1e293b",
+  warning: "#eab308",
+  error: "#ef4444",
 };
 
-export default function StatsScreen() {
+const revocationsByCode = (): Record<string, PassRevocation> =>
+  Object.fromEntries(getRevokedPasses().map((revocation) => [revocation.qrCode, revocation]));
+
+const definitionsByCode = (): Record<string, PassDefinition> =>
+  Object.fromEntries(getPassDefinitions().map((definition) => [definition.qrCode, definition]));
+
+export default function StatsScreen({ navigation }: Props) {
   const [state, setState] = useState<LocalState>(getLocalState());
   const [jsonConfig, setJsonConfig] = useState<any>(getJSONConfigState());
+  const [conflicts, setConflicts] = useState<ScanConflict[]>(getConflicts());
+  const [revocations, setRevocations] = useState<Record<string, PassRevocation>>(revocationsByCode());
+  const [definitions, setDefinitions] = useState<Record<string, PassDefinition>>(definitionsByCode());
+  const isAdmin = isEnrollmentAdmin();
 
-  useEffect(() => {
-    setState(getLocalState());
+  const refresh = useCallback(() => {
+    setState({ ...getLocalState() });
     setJsonConfig(getJSONConfigState());
+    setConflicts(getConflicts());
+    setRevocations(revocationsByCode());
+    setDefinitions(definitionsByCode());
   }, []);
 
+  // Refresh when coming back from the pass editor
+  useFocusEffect(refresh);
+
+  // Edit, revoke or restore a pass on every device (event admin only)
+  const managePass = (code: string) => {
+    const run = async (action: () => Promise<PassRevocation>) => {
+      try {
+        await action();
+        refresh();
+      } catch (error) {
+        console.error("Failed to update pass revocation:", error);
+        Alert.alert("Revoke pass", error instanceof Error ? error.message : "Something went wrong");
+      }
+    };
+
+    const confirmRevoke = () =>
+      Alert.alert("Revoke pass", `Block ${code} on every scanner?`, [
+        { text: "Cancel", style: "cancel" },
+        { text: "Stolen", style: "destructive", onPress: () => run(() => revokePass(code, "Stolen")) },
+        { text: "Refunded", style: "destructive", onPress: () => run(() => revokePass(code, "Refunded")) },
+      ]);
+
+    Alert.alert(code, undefined, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Edit", onPress: () => navigation.navigate("PassEditor", { qrCode: code }) },
+      revocations[code]
+        ? { text: "Restore", onPress: () => run(() => restorePass(code)) }
+        : { text: "Revoke", style: "destructive", onPress: confirmRevoke },
+    ]);
+  };
+
+  // Void the latest scan of a pass on a date (for passes accepted by mistake)
+  const confirmVoid = (code: string, date: keyof typeof DATE_LABELS) => {
+    const scans = getActiveScans(state[code]).filter((scan) => scan.date === date);
+    const latest = scans[scans.length - 1];
+    if (!latest) return;
+
+    Alert.alert(
+      "Void scan",
+      `Void the ${new Date(latest.timestamp).toLocaleTimeString()} scan of ${code} on ${DATE_LABELS[date]}? All scanners will stop counting it.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Void",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await voidScan(latest.scanId);
+              refresh();
+            } catch (error) {
+              console.error("Failed to void scan:", error);
+              Alert.alert("Void scan", error instanceof Error ? error.message : "Something went wrong");
+            }
+          },
+        },
+      ],
+    );
+  };
+
   // Get all QR codes from JSON config (this includes all codes, not just scanned ones)
   const allQRCodes = Object.keys(jsonConfig);
 
@@ -129,19 +220,52 @@ export default function StatsScreen() {
       </View>
 
       <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false}>
+        {/* One-use passes accepted on more than one device */}
+        {conflicts.length > 0 && <ConflictSection conflicts={conflicts} />}
+
+        {isAdmin && (
+          <Pressable
+            style={styles.addButton}
+            onPress={() => navigation.navigate("PassEditor")}
+          >
+            <Text style={styles.addButtonText}>+ Add Pass</Text>
+          </Pressable>
+        )}
+
         {/* Infinite Passes */}
         {infinitePasses.length > 0 && (
-          <PassSection title="Infinite Passes" passes={infinitePasses} />
+          <PassSection
+            title="Infinite Passes"
+            passes={infinitePasses}
+            revocations={revocations}
+            definitions={definitions}
+            onVoid={confirmVoid}
+            onManage={isAdmin ? managePass : undefined}
+          />
         )}
 
         {/* One-Use Passes */}
         {oneUsePasses.length > 0 && (
-          <PassSection title="One-Use Passes" passes={oneUsePasses} />
+          <PassSection
+            title="One-Use Passes"
+            passes={oneUsePasses}
+            revocations={revocations}
+            definitions={definitions}
+            onVoid={confirmVoid}
+            onManage={isAdmin ? managePass : undefined}
+          />
         )}
 
         {allQRCodes.length === 0 && (
           <Text style={styles.empty}>No passes found.</Text>
         )}
+
+        {allQRCodes.length > 0 && (
+          <Text style={styles.hint}>
+            Long-press a used date to void its latest scan.
+            {isAdmin ? " Tap a pass code to edit, revoke or restore it." : ""}
+          </Text>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -150,9 +274,17 @@ export default function StatsScreen() {
 function PassSection({
   title,
   passes,
+  revocations,
+  definitions,
+  onVoid,
+  onManage,
 }: {
   title: string;
   passes: [string, PassEntry][];
+  revocations: Record<string, PassRevocation>;
+  definitions: Record<string, PassDefinition>;
+  onVoid: (code: string, date: keyof typeof DATE_LABELS) => void;
+  onManage?: (code: string) => void;
 }) {
   const [expanded, setExpanded] = useState(true);
 
@@ -172,17 +304,96 @@ function PassSection({
 
       {expanded &&
         passes.map(([code, pass]) => (
-          <PassCard key={code} code={code} pass={pass} />
+          <PassCard
+            key={code}
+            code={code}
+            pass={pass}
+            revocation={revocations[code]}
+            metadata={definitions[code]?.metadata}
+            onVoid={onVoid}
+            onManage={onManage}
+          />
         ))}
     </View>
   );
 }
 
-function PassCard({ code, pass }: { code: string; pass: PassEntry }) {
+function ConflictSection({ conflicts }: { conflicts: ScanConflict[] }) {
   return (
-    <View style={styles.card}>
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.sectionTitle, { color: COLORS.warning }]}>
+          Double Entries ({conflicts.length})
+        </Text>
+      </View>
+
+      {conflicts.map((conflict) => (
+        <View
+          key={`${conflict.qrCode}-${conflict.date}`}
+          style={[styles.card, styles.conflictCard]}
+        >
+          <View style={styles.cardHeader}>
+            <Text style={styles.code}>{conflict.qrCode}</Text>
+            <Text style={styles.conflictDate}>
+              {DATE_LABELS[conflict.date as keyof typeof DATE_LABELS] ?? conflict.date}
+            </Text>
+          </View>
+
+          {conflict.scans.map((scan) => {
+            const isWinner = scan.scanId === conflict.winnerScanId;
+            return (
+              <View key={scan.scanId} style={styles.conflictRow}>
+                <Text style={styles.conflictDevice}>
+                  {scan.deviceId.substring(0, 8)}...
+                </Text>
+                <Text style={styles.conflictTime}>
+                  {new Date(scan.timestamp).toLocaleTimeString()}
+                </Text>
+                <Text
+                  style={[
+                    styles.conflictOutcome,
+                    isWinner && styles.conflictOutcomeWinner,
+                  ]}
+                >
+                  {isWinner ? "First" : "Duplicate"}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function PassCard({
+  code,
+  pass,
+  revocation,
+  metadata,
+  onVoid,
+  onManage,
+}: {
+  code: string;
+  pass: PassEntry;
+  revocation?: PassRevocation;
+  metadata?: Record<string, string>;
+  onVoid: (code: string, date: keyof typeof DATE_LABELS) => void;
+  onManage?: (code: string) => void;
+}) {
+  return (
+    <View style={[styles.card, revocation && styles.revokedCard]}>
       <View style={styles.cardHeader}>
-        <Text style={styles.code}>{code}</Text>
+        <Pressable onPress={onManage ? () => onManage(code) : undefined}>
+          <Text style={styles.code}>{code}</Text>
+        </Pressable>
+        {revocation && (
+          <View style={styles.revokedBadge}>
+            <Text style={styles.revokedText}>
+              Revoked{revocation.reason ? ` • ${revocation.reason}` : ""}
+            </Text>
+          </View>
+        )}
         {pass.type === "infinite" && pass.count !== undefined && (
           <View style={styles.countBadge}>
             <Text style={styles.countText}>
@@ -192,38 +403,47 @@ function PassCard({ code, pass }: { code: string; pass: PassEntry }) {
         )}
       </View>
 
+      {metadata && (
+        <Text style={styles.metadata}>
+          {[metadata.holder, metadata.note].filter(Boolean).join(" • ")}
+        </Text>
+      )}
+
       <View style={styles.datesRow}>
         {Object.entries(DATE_LABELS).map(([key, label]) => {
-          const hasScans = pass[key as keyof typeof DATE_LABELS];
+          const date = key as keyof typeof DATE_LABELS;
+          const hasScans = pass[date];
 
           // For infinite passes, show scan activity differently
           if (pass.type === "infinite") {
             return (
-              <View
+              <Pressable
                 key={key}
                 style={[styles.datePill, hasScans && styles.datePillActive]}
+                onLongPress={hasScans ? () => onVoid(code, date) : undefined}
               >
                 <Text
                   style={[styles.dateText, hasScans && styles.dateTextActive]}
                 >
                   {label} {hasScans ? "✓" : ""}
                 </Text>
-              </View>
+              </Pressable>
             );
           }
 
           // For one-use passes, show "Used" status
           return (
-            <View
+            <Pressable
               key={key}
               style={[styles.datePill, hasScans && styles.datePillUsed]}
+              onLongPress={hasScans ? () => onVoid(code, date) : undefined}
             >
               <Text
                 style={[styles.dateText, hasScans && styles.dateTextUsed]}
               >
                 {hasScans ? "Used " : ""}{label}
               </Text>
-            </View>
+            </Pressable>
           );
         })}
       </View>
@@ -304,6 +524,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: COLORS.primary,
   },
+  revokedCard: {
+    borderColor: COLORS.error,
+  },
+  revokedBadge: {
+    backgroundColor: COLORS.error,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+  },
+  revokedText: {
+    color: "#ffffff",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
   countBadge: {
     backgroundColor: COLORS.success,
     paddingHorizontal: 8,
@@ -347,6 +581,62 @@ const styles = StyleSheet.create({
     color: "#0f172a",
     fontWeight: "600",
   },
+  conflictCard: {
+    borderColor: COLORS.warning,
+    gap: 6,
+  },
+  conflictDate: {
+    color: COLORS.warning,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  conflictRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  conflictDevice: {
+    fontFamily: "monospace",
+    fontSize: 13,
+    color: COLORS.secondary,
+  },
+  conflictTime: {
+    fontSize: 13,
+    color: COLORS.secondary,
+  },
+  conflictOutcome: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: COLORS.muted,
+  },
+  conflictOutcomeWinner: {
+    color: COLORS.success,
+  },
+  metadata: {
+    color: COLORS.secondary,
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  addButton: {
+    backgroundColor: COLORS.card,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  addButtonText: {
+    color: COLORS.accent,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  hint: {
+    textAlign: "center",
+    marginVertical: 16,
+    color: COLORS.muted,
+    fontSize: 12,
+  },
   empty: {
     textAlign: "center",
     marginTop: 40,
@@ -0,0 +1,109 @@
+import { decodeMessage } from '../codec';
+import { ScanRange, StateMessage } from '../types';
+import {
+  TODAY,
+  createTestNetwork,
+  hasScan,
+  passCodes,
+  scanCount,
+  silenceLogs,
+  waitFor,
+} from './setup/engines';
+
+describe('catching up', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('brings a device that joins after scans were made up to date', async () => {
+    const a = await network.start('a');
+    const qrCodes = passCodes(a);
+    for (let i = 0; i < 10; i++) {
+      await a.addScanEvent(qrCodes[i % qrCodes.length], TODAY);
+    }
+
+    const b = await network.start('b');
+    await waitFor(() => scanCount(b) === 10);
+    expect(scanCount(a)).toBe(10);
+  });
+
+  it('picks up a revocation made before it joined from the periodic state summary', async () => {
+    const a = await network.start('a');
+    const enrollment = await a.createEvent();
+    const qrCode = passCodes(a)[0];
+    await a.revokePass(qrCode, 'Stolen');
+
+    // a has no scans, so catching up brings nothing: only the summary shows b is behind
+    const b = await network.start('b');
+    await b.enrollInEvent(enrollment);
+    await waitFor(() => b.getRevocation(qrCode)?.reason === 'Stolen');
+  });
+});
+
+describe('periodic sync', () => {
+  const types: StateMessage['type'][] = [];
+  const network = createTestNetwork({
+    route: (from, to, data) => {
+      try {
+        types.push(decodeMessage(data).message.type);
+      } catch {
+        // Not a whole message (fragments)
+      }
+      return [0];
+    },
+  });
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('sends peers a state summary instead of the full state', async () => {
+    const a = await network.start('a');
+    const b = await network.start('b');
+    await a.addScanEvent(passCodes(a)[0], TODAY);
+    await waitFor(() => scanCount(b) === 1);
+
+    types.length = 0;
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(types).toContain('state-hash');
+    expect(types).not.toContain('full-state');
+  });
+});
+
+describe('lost deltas', () => {
+  // Every copy of a's first delta to b is lost, ACK retries included
+  let droppedId: string | undefined;
+  const requested: ScanRange[] = [];
+  const network = createTestNetwork({
+    route: (from, to, data) => {
+      try {
+        const { message } = decodeMessage(data);
+        if (from === 'a' && to === 'b' && message.type === 'delta') {
+          droppedId ??= message.messageId;
+          if (message.messageId === droppedId) return [];
+        }
+        if (from === 'b' && to === 'a' && message.type === 'scan-request') {
+          requested.push(...message.scanRanges!);
+        }
+      } catch {
+        // Not a whole message (fragments)
+      }
+      return [0];
+    },
+  });
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('asks for a scan missing from the sequence and fills it in', async () => {
+    // No Merkle rounds within the test, so only a scan-request can bring the scan
+    const config = { reconciliationIntervalMs: 60000, fullSyncIntervalMs: 60000 };
+    const a = await network.start('a', { config });
+    const b = await network.start('b', { config });
+    await waitFor(() => b.getConnectedPeers().length === 1);
+
+    const scan = await a.addScanEvent(passCodes(a)[0], TODAY);
+    expect(droppedId).toBeDefined();
+
+    // b holds off until the answer to its startup state request is due (5s)
+    await waitFor(() => hasScan(b, scan.scanId), 8000);
+    expect(requested).toContainEqual({ origin: a.getDeviceId(), from: 1, to: 1 });
+  }, 15000);
+});
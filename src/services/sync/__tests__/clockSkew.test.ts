@@ -0,0 +1,55 @@
+import { sampleClock, smoothClock } from '../clockSkew';
+import { serviceEvents } from '../events';
+import { createTestNetwork, offsetClock, silenceLogs, waitFor } from './setup/engines';
+
+describe('sampleClock', () => {
+  it('takes the time the peer held the echo out of the round trip', () => {
+    // Peer clock 5s ahead, 10ms each way, echo held for 1s
+    const echo = { timestamp: 1000, receivedAt: 6010 };
+    expect(sampleClock(echo, 7010, 2020)).toEqual({ clockOffset: 5000, roundTripTime: 20 });
+  });
+
+  it('moves the running estimate a quarter of the way to a new sample', () => {
+    const sample = { clockOffset: 400, roundTripTime: 40 };
+    expect(smoothClock(null, sample)).toBe(sample);
+    expect(smoothClock({ clockOffset: 0, roundTripTime: 0 }, sample)).toEqual({
+      clockOffset: 100,
+      roundTripTime: 10,
+    });
+  });
+});
+
+describe('clock skew detection', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => {
+    network.stopAll();
+    serviceEvents.removeAllListeners('clock-skew');
+  });
+
+  it('flags peers further off than the threshold', async () => {
+    const skewed = jest.fn();
+    serviceEvents.on('clock-skew', skewed);
+
+    const a = await network.start('a');
+    // close is within the 5s threshold of both a and fast
+    const fast = await network.start('fast', { clock: offsetClock(8000) });
+    const close = await network.start('close', { clock: offsetClock(4000) });
+
+    // Offsets are estimated from the second round of heartbeats on
+    await waitFor(() => a.getSkewedPeers().length > 0);
+
+    expect(a.getClockSkewThreshold()).toBe(5);
+    expect(a.getSkewedPeers().map((peer) => peer.deviceId)).toEqual([fast.getDeviceId()]);
+    expect(skewed).toHaveBeenCalledWith(expect.objectContaining({ deviceId: fast.getDeviceId() }));
+    expect(skewed).not.toHaveBeenCalledWith(
+      expect.objectContaining({ deviceId: close.getDeviceId() })
+    );
+
+    await a.setClockSkewThreshold(10);
+    expect(a.getSkewedPeers()).toEqual([]);
+
+    await a.setClockSkewThreshold(1);
+    await waitFor(() => a.getSkewedPeers().length === 2);
+  });
+});
@@ -0,0 +1,122 @@
+import { strToU8 } from 'fflate';
+import { JSON_PROTOCOL_VERSION, PROTOCOL_VERSION, decodeMessage, encodeMessage } from '../codec';
+import { ScanEvent, StateMessage } from '../types';
+
+const DEVICE_ID = '0f1e2d3c-4b5a-4978-8695-a4b3c2d1e0f9';
+
+function scan(index: number): ScanEvent {
+  return {
+    scanId: `6a1b9c2d-3e4f-4a5b-8c6d-${index.toString(16).padStart(12, '0')}`,
+    qrCode: `QR${index % 7}`,
+    timestamp: 1_760_000_000_000 + index,
+    deviceId: DEVICE_ID,
+    date: '14nov',
+    seq: index + 1,
+    hlc: { wallTime: 1_760_000_000_000 + index, counter: index % 3 },
+  };
+}
+
+function roundTrip(message: StateMessage) {
+  return decodeMessage(encodeMessage(message));
+}
+
+describe('binary format (v2)', () => {
+  it('round-trips a delta with scans, tombstones and clocks', () => {
+    const message: StateMessage = {
+      type: 'delta',
+      messageId: '11111111-2222-4333-8444-555555555555',
+      deltas: [scan(1), scan(2)],
+      tombstones: [
+        { scanId: scan(1).scanId, qrCode: 'QR1', date: '14nov', deviceId: DEVICE_ID, timestamp: 5 },
+      ],
+      sequenceNum: 42,
+      sequenceStart: 1,
+      deviceId: DEVICE_ID,
+      timestamp: 1_760_000_000_123,
+      hlc: { wallTime: 1_760_000_000_123, counter: 4 },
+      scanSeq: 2,
+    };
+
+    const { message: decoded, version } = roundTrip(message);
+    expect(version).toBe(PROTOCOL_VERSION);
+    expect(decoded).toEqual(message);
+  });
+
+  it('round-trips every field shape it has a codec for', () => {
+    const message: StateMessage = {
+      type: 'key-update',
+      messageId: '11111111-2222-4333-8444-555555555555',
+      ackMessageId: '99999999-2222-4333-8444-555555555555',
+      deviceId: DEVICE_ID,
+      heartbeatEcho: { timestamp: 10, receivedAt: 20 },
+      eventKey: { keyId: 3, key: 'c2VjcmV0' },
+      scanRanges: [{ origin: DEVICE_ID, from: 4, to: 9 }],
+      versionVector: { [DEVICE_ID]: 7 },
+      fullState: { QR1: { type: 'one-use', scans: [scan(1)] } },
+      viaBroadcast: true,
+      sequenceNum: 1,
+      timestamp: 1_760_000_000_000,
+    };
+
+    expect(roundTrip(message).message).toEqual(message);
+  });
+
+  it('keeps IDs that are not lowercase UUIDs as strings', () => {
+    const message: StateMessage = {
+      type: 'heartbeat',
+      deviceId: 'sim-device-1',
+      messageId: 'ABC',
+      sequenceNum: 1,
+      timestamp: 1_760_000_000_000,
+    };
+    expect(roundTrip(message).message).toEqual(message);
+  });
+
+  it('compresses large bodies and is smaller than JSON', () => {
+    const message: StateMessage = {
+      type: 'full-state',
+      deviceId: DEVICE_ID,
+      deltas: Array.from({ length: 200 }, (_, index) => scan(index)),
+      sequenceNum: 1,
+      timestamp: 1_760_000_000_000,
+    };
+
+    const encoded = encodeMessage(message);
+    expect(encoded[1] & 0x01).toBe(1);
+    expect(encoded.length).toBeLessThan(JSON.stringify(message).length / 2);
+    expect(decodeMessage(encoded).message).toEqual(message);
+  });
+
+  it('carries fields it does not know, so newer senders can add them', () => {
+    const message = {
+      type: 'heartbeat',
+      deviceId: DEVICE_ID,
+      sequenceNum: 1,
+      timestamp: 1_760_000_000_000,
+      futureField: { nested: [1, 2] },
+    } as StateMessage;
+    expect(roundTrip(message).message).toEqual(message);
+  });
+
+  it('rejects empty messages and unknown versions', () => {
+    expect(() => decodeMessage(new Uint8Array())).toThrow('Empty message');
+    expect(() => decodeMessage(new Uint8Array([9, 0]))).toThrow('Unsupported protocol version 9');
+  });
+});
+
+describe('JSON format (v1)', () => {
+  it('decodes messages from older senders', () => {
+    const message: StateMessage = {
+      type: 'delta',
+      messageId: 'legacy-message',
+      deltas: [scan(1)],
+      sequenceNum: 1,
+      deviceId: DEVICE_ID,
+      timestamp: 1_760_000_000_000,
+    };
+
+    const { message: decoded, version } = decodeMessage(strToU8(JSON.stringify(message)));
+    expect(version).toBe(JSON_PROTOCOL_VERSION);
+    expect(decoded).toEqual(message);
+  });
+});
@@ -0,0 +1,40 @@
+import { createScanner } from '../scanner';
+import { TODAY, createTestNetwork, scanCount, silenceLogs, waitFor } from './setup/engines';
+
+const PASSES = { ONEUSE: { type: 'one-use' as const, [TODAY]: false } };
+
+describe('one-use conflicts', () => {
+  let offline = false;
+  const network = createTestNetwork({ route: () => (offline ? [] : [0]) });
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('turns two offline scans of a one-use pass into the same conflict on both devices', async () => {
+    const a = await network.start('a', { config: { initialPasses: PASSES } });
+    const b = await network.start('b', { config: { initialPasses: PASSES } });
+    await waitFor(() => a.getConnectedPeers().length === 1 && b.getConnectedPeers().length === 1);
+
+    // Cut off from each other, neither device sees the other's scan, so both let the pass in
+    offline = true;
+    const scanA = await createScanner(a).handleScannedQRCode('ONEUSE');
+    const scanB = await createScanner(b).handleScannedQRCode('ONEUSE');
+    expect(scanA.allowed && scanB.allowed).toBe(true);
+    expect(a.getConflicts()).toEqual([]);
+
+    offline = false;
+    await waitFor(() => scanCount(a) === 2 && scanCount(b) === 2);
+    await waitFor(() => a.getConflicts().length === 1 && b.getConflicts().length === 1);
+
+    const [conflictA] = a.getConflicts();
+    const [conflictB] = b.getConflicts();
+    expect(conflictA).toMatchObject({ qrCode: 'ONEUSE', date: TODAY });
+    expect(conflictA.scans.map((scan) => scan.scanId).sort()).toEqual(
+      [scanA.scanId, scanB.scanId].sort()
+    );
+
+    // Apart from when each device noticed it, the conflict reads the same on both
+    const { detectedAt: _a, ...sharedA } = conflictA;
+    const { detectedAt: _b, ...sharedB } = conflictB;
+    expect(sharedA).toEqual(sharedB);
+  });
+});
@@ -0,0 +1,85 @@
+import { decodeMessage } from '../codec';
+import { createMemoryStore } from '../memoryStore';
+import {
+  TODAY,
+  createTestNetwork,
+  hasScan,
+  passCodes,
+  scanCount,
+  silenceLogs,
+  waitFor,
+} from './setup/engines';
+
+describe('SyncEngine over the in-memory transport', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('delivers a scan to the other device and records the ACK', async () => {
+    const a = await network.start('a');
+    const b = await network.start('b');
+    await waitFor(() => a.getConnectedPeers().length === 1 && b.getConnectedPeers().length === 1);
+
+    const scan = await a.addScanEvent(passCodes(a)[0], TODAY);
+
+    await waitFor(() => hasScan(b, scan.scanId));
+    await waitFor(() => a.getScanReplicationStatus(scan.scanId)?.state === 'replicated');
+  });
+
+  it('converges when both devices scan while messages are lost', async () => {
+    let delivered = 0;
+    const lossy = createTestNetwork({ route: () => (delivered++ % 3 === 0 ? [] : [0]) });
+    try {
+      const a = await lossy.start('a');
+      const b = await lossy.start('b');
+      const qrCodes = passCodes(a);
+
+      for (let i = 0; i < 5; i++) {
+        await a.addScanEvent(qrCodes[i], TODAY);
+        await b.addScanEvent(qrCodes[i + 5], TODAY);
+      }
+
+      await waitFor(() => scanCount(a) === 10 && scanCount(b) === 10, 10000);
+    } finally {
+      lossy.stopAll();
+    }
+  }, 15000); // Several losses in a row can take longer to recover from than the default 5s
+
+  it('resends ACKs still pending when the app stopped after a restart with the same store', async () => {
+    let cutOff = true;
+    // Messages a sends b once the link is back (no event key, so they decode as sent)
+    const sentToB: string[] = [];
+    const flaky = createTestNetwork({
+      route: (from, to, data) => {
+        if (from !== 'a' || to !== 'b') return [0];
+        if (cutOff) return [];
+        sentToB.push(decodeMessage(data).message.messageId ?? '');
+        return [0];
+      },
+    });
+    try {
+      const storage = createMemoryStore();
+      const a = await flaky.start('a', { storage });
+      const b = await flaky.start('b');
+      await waitFor(() => a.getConnectedPeers().length === 1);
+
+      // The delta never reaches b, and the app stops before the first retry
+      const scan = await a.addScanEvent(passCodes(a)[0], TODAY);
+      const [pending] = await storage.getAllPendingAcks();
+      expect(pending).toBeDefined();
+      a.stop();
+
+      cutOff = false;
+      const restarted = await flaky.start('a', { storage });
+      expect(restarted.getPendingAcksCount()).toBe(1);
+
+      // The delta goes out again as first sent, and b's ACK clears it
+      await waitFor(() => sentToB.includes(pending.messageId), 8000);
+      await waitFor(() => hasScan(b, scan.scanId));
+      await waitFor(() => restarted.getPendingAcksCount() === 0);
+      expect(await storage.getAllPendingAcks()).toEqual([]);
+    } finally {
+      flaky.stopAll();
+    }
+  }, 15000); // Retries only start once the 5s ACK timeout has passed
+});
@@ -0,0 +1,77 @@
+import { MAX_CLOCK_DRIFT_MS, ZERO_HLC, compareHlc, receiveHlc, scanHlc, tickHlc } from '../hlc';
+
+describe('tickHlc', () => {
+  it('follows the physical clock when it moved forward', () => {
+    expect(tickHlc({ wallTime: 1000, counter: 3 }, 2000)).toEqual({ wallTime: 2000, counter: 0 });
+  });
+
+  it('bumps the counter when the physical clock did not move or went back', () => {
+    expect(tickHlc({ wallTime: 1000, counter: 3 }, 1000)).toEqual({ wallTime: 1000, counter: 4 });
+    expect(tickHlc({ wallTime: 1000, counter: 3 }, 500)).toEqual({ wallTime: 1000, counter: 4 });
+  });
+});
+
+describe('receiveHlc', () => {
+  it('moves past a remote clock ahead of ours', () => {
+    expect(
+      receiveHlc({ wallTime: 1000, counter: 0 }, { wallTime: 3000, counter: 5 }, 2000)
+    ).toEqual({
+      wallTime: 3000,
+      counter: 6,
+    });
+  });
+
+  it('takes the higher counter when both clocks are equal', () => {
+    expect(
+      receiveHlc({ wallTime: 3000, counter: 2 }, { wallTime: 3000, counter: 7 }, 1000)
+    ).toEqual({
+      wallTime: 3000,
+      counter: 8,
+    });
+  });
+
+  it('bumps our counter when our clock is ahead of the remote one', () => {
+    expect(
+      receiveHlc({ wallTime: 3000, counter: 2 }, { wallTime: 1000, counter: 7 }, 1000)
+    ).toEqual({
+      wallTime: 3000,
+      counter: 3,
+    });
+  });
+
+  it('follows the physical clock when it is ahead of both', () => {
+    expect(
+      receiveHlc({ wallTime: 1000, counter: 2 }, { wallTime: 2000, counter: 7 }, 5000)
+    ).toEqual({
+      wallTime: 5000,
+      counter: 0,
+    });
+  });
+
+  it('ignores a remote clock too far ahead', () => {
+    const last = { wallTime: 1000, counter: 2 };
+    expect(receiveHlc(last, { wallTime: 1000 + MAX_CLOCK_DRIFT_MS + 1, counter: 0 }, 1000)).toBe(
+      last
+    );
+  });
+});
+
+describe('compareHlc', () => {
+  it('orders by wall time, then counter', () => {
+    expect(compareHlc({ wallTime: 1, counter: 9 }, { wallTime: 2, counter: 0 })).toBeLessThan(0);
+    expect(compareHlc({ wallTime: 2, counter: 1 }, { wallTime: 2, counter: 0 })).toBeGreaterThan(0);
+    expect(compareHlc(ZERO_HLC, { wallTime: 0, counter: 0 })).toBe(0);
+  });
+});
+
+describe('scanHlc', () => {
+  it('falls back to the wall time for scans without an HLC', () => {
+    const scan = { scanId: '1', qrCode: 'QR1', date: '14nov', timestamp: 1234, deviceId: 'a' };
+
+    expect(scanHlc(scan)).toEqual({ wallTime: 1234, counter: 0 });
+    expect(scanHlc({ ...scan, hlc: { wallTime: 1500, counter: 2 } })).toEqual({
+      wallTime: 1500,
+      counter: 2,
+    });
+  });
+});
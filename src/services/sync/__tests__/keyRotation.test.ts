@@ -0,0 +1,68 @@
+import {
+  TODAY,
+  createTestNetwork,
+  hasScan,
+  passCodes,
+  silenceLogs,
+  waitFor,
+} from './setup/engines';
+
+describe('event key rotation', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('switches to a rotated key only once the other device holds it', async () => {
+    const a = await network.start('a');
+    const enrollment = await a.createEvent();
+    const b = await network.start('b');
+    await b.enrollInEvent(enrollment);
+    await waitFor(() => a.getConnectedPeers().length === 1);
+
+    // Still on the old key when rotateEventKey returns: b has not ACKed the new one yet
+    expect((await a.rotateEventKey()).configVersion).toBe(0);
+
+    await waitFor(
+      () => a.getEnrollment()?.configVersion === 1 && b.getEnrollment()?.configVersion === 1
+    );
+    expect(a.getKeyRotationStatus()).toBeNull();
+
+    const scan = await b.addScanEvent(passCodes(b)[0], TODAY);
+    await waitFor(() => hasScan(a, scan.scanId));
+  });
+
+  it('keeps reading a device that missed the rollout until the old key is retired', async () => {
+    // c is cut off while the key is rotated, then hears nothing back (so it is never offered the new key)
+    let cutOff = false;
+    let deaf = false;
+    const partitioned = createTestNetwork({
+      route: (from, to) =>
+        (cutOff && (from === 'c' || to === 'c')) || (deaf && to === 'c') ? [] : [0],
+    });
+    try {
+      const a = await partitioned.start('a', { config: { peerTimeoutMs: 1000 } });
+      const enrollment = await a.createEvent();
+      const c = await partitioned.start('c');
+      await c.enrollInEvent(enrollment);
+      await waitFor(() => a.getConnectedPeers().length === 1);
+
+      cutOff = true;
+      await waitFor(() => a.getConnectedPeers().length === 0);
+      expect((await a.rotateEventKey()).configVersion).toBe(1);
+
+      cutOff = false;
+      deaf = true;
+      const [qrCode, otherQrCode] = passCodes(c);
+      const scan = await c.addScanEvent(qrCode, TODAY);
+      await waitFor(() => hasScan(a, scan.scanId));
+      expect(c.getEnrollment()?.configVersion).toBe(0);
+
+      await a.retireEventKey(0);
+      const lateScan = await c.addScanEvent(otherQrCode, TODAY);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      expect(hasScan(a, lateScan.scanId)).toBe(false);
+    } finally {
+      partitioned.stopAll();
+    }
+  });
+});
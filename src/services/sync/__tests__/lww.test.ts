@@ -0,0 +1,26 @@
+import { lwwWins } from '../lww';
+
+describe('lwwWins', () => {
+  const current = { deviceId: 'device-b', hlc: { wallTime: 1000, counter: 1 } };
+
+  it('accepts the first write', () => {
+    expect(lwwWins(current, undefined)).toBe(true);
+  });
+
+  it('lets the later clock win', () => {
+    expect(lwwWins({ deviceId: 'device-a', hlc: { wallTime: 1000, counter: 2 } }, current)).toBe(
+      true
+    );
+    expect(lwwWins({ deviceId: 'device-z', hlc: { wallTime: 999, counter: 5 } }, current)).toBe(
+      false
+    );
+  });
+
+  it('breaks ties by device ID, the same way on both sides', () => {
+    const other = { deviceId: 'device-c', hlc: current.hlc };
+
+    expect(lwwWins(other, current)).toBe(true);
+    expect(lwwWins(current, other)).toBe(false);
+    expect(lwwWins(current, current)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  bucketKey,
+  buildMerkleTree,
+  diffNodes,
+  getScansInBuckets,
+  getTombstonesInBuckets,
+  hashRecords,
+  parseBucketKey,
+} from '../merkle';
+import { LocalState, ScanEvent } from '../types';
+
+function scan(scanId: string, qrCode: string, date: string): ScanEvent {
+  return { scanId, qrCode, date, timestamp: 1000, deviceId: 'device-a' };
+}
+
+function stateOf(...scans: ScanEvent[]): LocalState {
+  const state: LocalState = {};
+  for (const s of scans) {
+    (state[s.qrCode] ||= { type: 'infinite', scans: [] }).scans.push(s);
+  }
+  return state;
+}
+
+describe('buildMerkleTree', () => {
+  it('hashes the same scans the same way whatever their order', () => {
+    const a = stateOf(
+      scan('1', 'QR1', '14nov'),
+      scan('2', 'QR1', '14nov'),
+      scan('3', 'QR2', '15nov')
+    );
+    const b = stateOf(
+      scan('3', 'QR2', '15nov'),
+      scan('2', 'QR1', '14nov'),
+      scan('1', 'QR1', '14nov')
+    );
+
+    expect(buildMerkleTree(a)).toEqual(buildMerkleTree(b));
+  });
+
+  it('leaves out passes without scans', () => {
+    const withEmpty = stateOf(scan('1', 'QR1', '14nov'));
+    withEmpty.QR2 = { type: 'one-use', scans: [] };
+
+    expect(buildMerkleTree(withEmpty).root).toBe(
+      buildMerkleTree(stateOf(scan('1', 'QR1', '14nov'))).root
+    );
+    expect(buildMerkleTree(withEmpty).qrNodes).not.toHaveProperty('QR2');
+  });
+
+  it('changes only the nodes above a differing bucket', () => {
+    const ours = buildMerkleTree(stateOf(scan('1', 'QR1', '14nov'), scan('2', 'QR2', '14nov')));
+    const theirs = buildMerkleTree(
+      stateOf(scan('1', 'QR1', '14nov'), scan('2', 'QR2', '14nov'), scan('3', 'QR2', '15nov'))
+    );
+
+    expect(ours.root).not.toBe(theirs.root);
+    expect(diffNodes(ours.qrNodes, theirs.qrNodes)).toEqual(['QR2']);
+    expect(diffNodes(ours.bucketNodes.QR2, theirs.bucketNodes.QR2)).toEqual(['15nov']);
+  });
+
+  it('tells apart states that differ only by a tombstone', () => {
+    const plain = stateOf(scan('1', 'QR1', '14nov'));
+    const voided = stateOf(scan('1', 'QR1', '14nov'));
+    voided.QR1.tombstones = [
+      { scanId: '1', qrCode: 'QR1', date: '14nov', deviceId: 'device-b', timestamp: 2000 },
+    ];
+
+    expect(buildMerkleTree(plain).root).not.toBe(buildMerkleTree(voided).root);
+  });
+});
+
+describe('diffNodes', () => {
+  it('includes keys that exist on one side only, sorted', () => {
+    expect(diffNodes({ b: '1', c: '2' }, { a: '1', c: '2' })).toEqual(['a', 'b']);
+  });
+});
+
+describe('bucket keys', () => {
+  it('round-trip QR codes that contain the separator', () => {
+    expect(parseBucketKey(bucketKey('QR|1', '14nov'))).toEqual({ qrCode: 'QR|1', date: '14nov' });
+  });
+
+  it('select the scans and tombstones of the given buckets', () => {
+    const state = stateOf(
+      scan('1', 'QR1', '14nov'),
+      scan('2', 'QR1', '15nov'),
+      scan('3', 'QR2', '14nov')
+    );
+    state.QR1.tombstones = [
+      { scanId: '2', qrCode: 'QR1', date: '15nov', deviceId: 'device-b', timestamp: 2000 },
+    ];
+
+    const keys = [bucketKey('QR1', '15nov'), bucketKey('QR3', '14nov')];
+    expect(getScansInBuckets(state, keys).map((s) => s.scanId)).toEqual(['2']);
+    expect(getTombstonesInBuckets(state, keys).map((t) => t.scanId)).toEqual(['2']);
+  });
+});
+
+describe('hashRecords', () => {
+  const record = (qrCode: string, wallTime: number) => ({
+    qrCode,
+    deviceId: 'device-a',
+    hlc: { wallTime, counter: 0 },
+  });
+
+  it('hashes the same winning writes the same way whatever their order', () => {
+    expect(hashRecords({ revocation: [record('QR1', 1000), record('QR2', 2000)] })).toBe(
+      hashRecords({ revocation: [record('QR2', 2000), record('QR1', 1000)] })
+    );
+    expect(hashRecords({ revocation: [] })).toBe(hashRecords({}));
+  });
+
+  it('differs when a record has another write or is of another kind', () => {
+    const ours = hashRecords({ revocation: [record('QR1', 1000)] });
+    expect(hashRecords({ revocation: [record('QR1', 1001)] })).not.toBe(ours);
+    expect(hashRecords({ definition: [record('QR1', 1000)] })).not.toBe(ours);
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  DEFAULT_MULTICAST_GROUP,
+  MAX_DATAGRAM_SIZE,
+  broadcastAddressFor,
+  createUdpTransport,
+} from '../network';
+import { RemoteInfo } from '../transport';
+
+// A socket that hears its own datagrams, so one transport is both sender and
+// receiver. mockDrop decides which outgoing datagrams get lost.
+let mockDrop: (datagram: Uint8Array) => boolean = () => false;
+const mockSent: Uint8Array[] = [];
+// The address datagrams appear to come from
+let mockFrom = '192.168.1.30';
+// Where each datagram was sent, and an address sends to fail for
+const mockSentTo: string[] = [];
+let mockFailTo: string | null = null;
+// Every socket created, and the NetInfo listener of the running transport
+const mockSockets: { closed: boolean }[] = [];
+let mockNetInfoListener: ((state: object) => void) | null = null;
+
+jest.mock('react-native', () => ({ Platform: { OS: 'android' } }));
+
+jest.mock('expo-network', () => ({ getIpAddressAsync: async () => '0.0.0.0' }));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  NetInfoStateType: { wifi: 'wifi', ethernet: 'ethernet' },
+  default: {
+    fetch: async () => ({
+      type: 'wifi',
+      isConnected: true,
+      details: { ipAddress: '192.168.1.20', subnet: '255.255.255.0' },
+    }),
+    addEventListener: (listener: (state: object) => void) => {
+      mockNetInfoListener = listener;
+      return () => {
+        mockNetInfoListener = null;
+      };
+    },
+  },
+}));
+
+jest.mock('react-native-udp', () => {
+  const { EventEmitter } = jest.requireActual('events');
+
+  const createSocket = () => {
+    const socket = new EventEmitter();
+    socket.closed = false;
+    mockSockets.push(socket);
+    socket.bind = () => setImmediate(() => socket.emit('listening'));
+    socket.address = () => ({ address: '0.0.0.0', port: 43210 });
+    socket.setBroadcast = () => {};
+    socket.addMembership = () => {};
+    socket.dropMembership = () => {};
+    socket.close = (callback?: () => void) => {
+      socket.closed = true;
+      callback?.();
+    };
+    socket.send = (
+      data: Uint8Array,
+      offset: number,
+      length: number,
+      port: number,
+      address: string,
+      callback: (err?: Error) => void
+    ) => {
+      const datagram = data.slice(offset, offset + length);
+      const from = mockFrom;
+      if (address === mockFailTo) {
+        callback(new Error('Network is unreachable'));
+        return;
+      }
+      mockSent.push(datagram);
+      mockSentTo.push(address);
+      if (!mockDrop(datagram)) {
+        setImmediate(() =>
+          socket.emit('message', datagram, {
+            address: from,
+            family: 'IPv4',
+            port,
+            size: length,
+          })
+        );
+      }
+      callback();
+    };
+    return socket;
+  };
+
+  return { __esModule: true, default: { createSocket } };
+});
+
+const FRAGMENT_MAGIC = 0xf7;
+const FRAGMENT_HEADER_SIZE = 14;
+
+function message(size: number): Uint8Array {
+  return Uint8Array.from({ length: size }, (_, index) => (index * 31 + 7) % 251);
+}
+
+// A data fragment of a two-part message: part 0 holds [id], part 1 holds [id + 100]
+function fragment(id: number, index: number): Uint8Array {
+  const datagram = new Uint8Array(FRAGMENT_HEADER_SIZE + 1);
+  const view = new DataView(datagram.buffer);
+  datagram[0] = FRAGMENT_MAGIC;
+  view.setUint32(6, id);
+  view.setUint16(10, index);
+  view.setUint16(12, 2);
+  datagram[FRAGMENT_HEADER_SIZE] = id + index * 100;
+  return datagram;
+}
+
+function fragmentIndex(datagram: Uint8Array): number | null {
+  if (datagram[0] !== FRAGMENT_MAGIC || datagram[1] !== 0) return null;
+  return new DataView(datagram.buffer, datagram.byteOffset).getUint16(10);
+}
+
+describe('UDP fragmentation', () => {
+  const transport = createUdpTransport({ multicastGroup: null });
+  let received: { data: Uint8Array; rinfo: RemoteInfo }[] = [];
+
+  const waitForMessage = async (timeoutMs: number) => {
+    const deadline = Date.now() + timeoutMs;
+    while (received.length === 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    return received[0];
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await transport.start();
+    transport.onMessage((data, rinfo) => received.push({ data, rinfo }));
+  });
+
+  afterAll(() => {
+    transport.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    received = [];
+    mockSent.length = 0;
+    mockDrop = () => false;
+    mockFrom = '192.168.1.30';
+  });
+
+  it('sends a message that fits in one datagram as it is', async () => {
+    const data = message(MAX_DATAGRAM_SIZE);
+    await transport.send(data, '192.168.1.30');
+
+    expect(mockSent).toEqual([data]);
+    expect((await waitForMessage(1000)).data).toEqual(data);
+  });
+
+  it('splits a large message into fragments and reassembles it', async () => {
+    const data = message(10_000);
+    await transport.send(data, '192.168.1.30');
+
+    expect(mockSent).toHaveLength(Math.ceil(10_000 / (MAX_DATAGRAM_SIZE - FRAGMENT_HEADER_SIZE)));
+    expect(mockSent.every((datagram) => datagram.length <= MAX_DATAGRAM_SIZE)).toBe(true);
+
+    const { data: reassembled, rinfo } = await waitForMessage(1000);
+    expect(reassembled).toEqual(data);
+    expect(rinfo.address).toBe('192.168.1.30');
+  });
+
+  it('asks again for fragments that were lost', async () => {
+    const lost = new Set([2, 5]);
+    mockDrop = (datagram) => {
+      const index = fragmentIndex(datagram);
+      return index !== null && lost.delete(index); // Only the first copy is lost
+    };
+
+    const data = message(10_000);
+    await transport.send(data, '192.168.1.30');
+
+    expect((await waitForMessage(3000)).data).toEqual(data);
+    expect(mockSent.some((datagram) => datagram[0] === FRAGMENT_MAGIC && datagram[1] === 1)).toBe(
+      true
+    );
+  });
+
+  it('drops fragments claiming more parts than a message can have', async () => {
+    const datagram = new Uint8Array(FRAGMENT_HEADER_SIZE + 10);
+    datagram[0] = FRAGMENT_MAGIC;
+    new DataView(datagram.buffer).setUint16(12, 0xffff);
+    await transport.send(datagram, '192.168.1.30');
+
+    expect(await waitForMessage(200)).toBeUndefined();
+  });
+
+  it('drops the oldest incomplete message once a sender has too many open', async () => {
+    for (let id = 1; id <= 9; id++) await transport.send(fragment(id, 0), '192.168.1.30');
+
+    await transport.send(fragment(9, 1), '192.168.1.30');
+    expect((await waitForMessage(1000)).data).toEqual(Uint8Array.from([9, 109]));
+
+    received = [];
+    await transport.send(fragment(1, 1), '192.168.1.30');
+    expect(await waitForMessage(200)).toBeUndefined();
+  });
+
+  it('drops the oldest incomplete message once too many are open in total', async () => {
+    // Start without the messages the previous tests left open
+    transport.stop();
+    await transport.start();
+
+    // 8 senders with 8 open messages each is the limit
+    for (let sender = 0; sender < 8; sender++) {
+      mockFrom = `192.168.1.${100 + sender}`;
+      for (let id = 1; id <= 8; id++) await transport.send(fragment(id, 0), '192.168.1.30');
+    }
+    mockFrom = '192.168.1.200';
+    await transport.send(fragment(1, 0), '192.168.1.30');
+
+    mockFrom = '192.168.1.100';
+    await transport.send(fragment(2, 1), '192.168.1.30');
+    expect((await waitForMessage(1000)).data).toEqual(Uint8Array.from([2, 102]));
+
+    received = [];
+    await transport.send(fragment(1, 1), '192.168.1.30');
+    expect(await waitForMessage(200)).toBeUndefined();
+  });
+
+  it('refuses to send messages too large to fragment', async () => {
+    await expect(transport.send(new Uint8Array(5 * 1024 * 1024), '192.168.1.30')).rejects.toThrow(
+      'Message too large to fragment'
+    );
+  });
+});
+
+describe('broadcastAddressFor', () => {
+  it('sets the host bits of the address', () => {
+    expect(broadcastAddressFor('192.168.1.20', '255.255.255.0')).toBe('192.168.1.255');
+    expect(broadcastAddressFor('172.16.4.9', '255.255.0.0')).toBe('172.16.255.255');
+    expect(broadcastAddressFor('10.0.0.5', '255.255.255.252')).toBe('10.0.0.7');
+    expect(broadcastAddressFor('192.168.4.17', '255.255.252.0')).toBe('192.168.7.255');
+  });
+
+  it('gives null without a valid netmask or address', () => {
+    expect(broadcastAddressFor('192.168.1.20', '')).toBeNull();
+    expect(broadcastAddressFor('192.168.1.20', '255.255.255')).toBeNull();
+    expect(broadcastAddressFor('', '255.255.255.0')).toBeNull();
+  });
+});
+
+describe('network changes', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('closes the socket a rebind opens after the transport was stopped', async () => {
+    const transport = createUdpTransport({ multicastGroup: null });
+    await transport.start();
+    const socketsBefore = mockSockets.length;
+
+    mockNetInfoListener!({
+      type: 'wifi',
+      isConnected: true,
+      details: { ipAddress: '192.168.1.21', subnet: '255.255.255.0' },
+    });
+    while (mockSockets.length === socketsBefore) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    // Stop while the new socket is still binding
+    transport.stop();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const allClosed = mockSockets.every((socket) => socket.closed);
+    transport.stop(); // Clean up whatever a failed check left open
+    expect(allClosed).toBe(true);
+  });
+});
+
+describe('discovery broadcasts', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    mockSentTo.length = 0;
+    mockFailTo = null;
+  });
+
+  it('sends to the multicast group only', async () => {
+    const transport = createUdpTransport({ multicastGroup: DEFAULT_MULTICAST_GROUP });
+    await transport.start();
+    try {
+      await transport.broadcast(message(100));
+      expect(mockSentTo).toEqual([DEFAULT_MULTICAST_GROUP]);
+    } finally {
+      transport.stop();
+    }
+  });
+
+  it('falls back to the subnet broadcast address when the multicast send fails', async () => {
+    const transport = createUdpTransport({ multicastGroup: DEFAULT_MULTICAST_GROUP });
+    await transport.start();
+    try {
+      mockFailTo = DEFAULT_MULTICAST_GROUP;
+      await transport.broadcast(message(100));
+      expect(mockSentTo).toEqual(['192.168.1.255']);
+    } finally {
+      transport.stop();
+    }
+  });
+
+  it('sends to both when asked to', async () => {
+    const transport = createUdpTransport({
+      multicastGroup: DEFAULT_MULTICAST_GROUP,
+      alsoBroadcast: true,
+    });
+    await transport.start();
+    try {
+      await transport.broadcast(message(100));
+      expect(mockSentTo).toEqual([DEFAULT_MULTICAST_GROUP, '192.168.1.255']);
+    } finally {
+      transport.stop();
+    }
+  });
+});
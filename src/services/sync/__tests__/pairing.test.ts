@@ -0,0 +1,27 @@
+import {
+  TODAY,
+  createTestNetwork,
+  hasScan,
+  passCodes,
+  silenceLogs,
+  waitFor,
+} from './setup/engines';
+
+describe('event pairing', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('only syncs with devices of the same event', async () => {
+    const a = await network.start('a');
+    const enrollment = await a.createEvent();
+    const b = await network.start('b');
+    await b.enrollInEvent(enrollment);
+    const outsider = await network.start('outsider');
+
+    const scan = await a.addScanEvent(passCodes(a)[0], TODAY);
+    await waitFor(() => hasScan(b, scan.scanId));
+    expect(hasScan(outsider, scan.scanId)).toBe(false);
+    expect(outsider.getRejectedMessagesCount()).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { createMemoryStore } from '../memoryStore';
+import { ScanEvent } from '../types';
+import { TODAY, createTestNetwork, passCodes, scanCount, silenceLogs } from './setup/engines';
+
+function scan(scanId: string, date = TODAY): ScanEvent {
+  return { scanId, qrCode: 'QR1', date, timestamp: 1000, deviceId: 'device-a' };
+}
+
+describe('ScanStore.recordScan', () => {
+  it("hands decide the pass's scans on the date and saves what it returns", async () => {
+    const store = createMemoryStore();
+    await store.saveScanEvents([scan('1'), scan('2', '15nov')]);
+
+    const decide = jest.fn(() => scan('3'));
+    expect(await store.recordScan('QR1', TODAY, decide)).toEqual(scan('3'));
+
+    expect(decide).toHaveBeenCalledWith([scan('1')]);
+    expect((await store.getScansForQROnDate('QR1', TODAY)).map((s) => s.scanId)).toEqual([
+      '1',
+      '3',
+    ]);
+  });
+
+  it('saves nothing when decide refuses', async () => {
+    const store = createMemoryStore();
+    await store.saveScanEvent(scan('1'));
+
+    expect(await store.recordScan('QR1', TODAY, () => null)).toBeNull();
+    expect(await store.getScansForQR('QR1')).toEqual([scan('1')]);
+  });
+
+  it('leaves voided scans out of what decide sees', async () => {
+    const store = createMemoryStore();
+    await store.saveScanEvents([scan('1'), scan('2')]);
+    await store.saveTombstones([
+      { scanId: '1', qrCode: 'QR1', date: TODAY, deviceId: 'device-b', timestamp: 2000 },
+    ]);
+
+    const decide = jest.fn(() => null);
+    await store.recordScan('QR1', TODAY, decide);
+    expect(decide).toHaveBeenCalledWith([scan('2')]);
+  });
+});
+
+describe('SyncEngine.recordScanEvent', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('records the scan when allowed, with the next scan sequence', async () => {
+    const engine = await network.start('a');
+    const qrCode = passCodes(engine)[0];
+
+    const first = await engine.recordScanEvent(
+      qrCode,
+      TODAY,
+      (todayScans) => todayScans.length === 0
+    );
+    expect(first).toMatchObject({ qrCode, date: TODAY, deviceId: engine.getDeviceId(), seq: 1 });
+    expect(await engine.getScansForQROnDate(qrCode, TODAY)).toEqual([first]);
+    expect(scanCount(engine)).toBe(1);
+  });
+
+  it('records nothing when refused, and keeps the sequence number for the next scan', async () => {
+    const engine = await network.start('a');
+    const [qrCode, otherQrCode] = passCodes(engine);
+    await engine.addScanEvent(qrCode, TODAY);
+
+    const isAllowed = jest.fn((todayScans: ScanEvent[]) => todayScans.length === 0);
+    expect(await engine.recordScanEvent(qrCode, TODAY, isAllowed)).toBeNull();
+    expect(isAllowed).toHaveBeenCalledWith([expect.objectContaining({ qrCode, seq: 1 })]);
+    expect(scanCount(engine)).toBe(1);
+
+    expect(await engine.recordScanEvent(otherQrCode, TODAY, () => true)).toMatchObject({ seq: 2 });
+  });
+});
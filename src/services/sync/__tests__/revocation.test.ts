@@ -0,0 +1,58 @@
+import { createScanner } from '../scanner';
+import { TODAY, createTestNetwork, silenceLogs, waitFor } from './setup/engines';
+
+const PASSES = { DAYPASS: { type: 'infinite' as const, [TODAY]: false } };
+
+describe('pass revocation', () => {
+  // While set, messages from a to b arrive in reverse order of sending
+  let reversing = false;
+  let reversed = 0;
+  const network = createTestNetwork({
+    route: (from, to) => (reversing && from === 'a' && to === 'b' ? [500 - 20 * reversed++] : [0]),
+  });
+  silenceLogs();
+  afterEach(() => {
+    network.stopAll();
+    reversing = false;
+  });
+
+  const startPaired = async () => {
+    const admin = await network.start('a', { config: { initialPasses: PASSES } });
+    const enrollment = await admin.createEvent();
+    const gate = await network.start('b', { config: { initialPasses: PASSES } });
+    await gate.enrollInEvent(enrollment);
+    await waitFor(() => admin.getConnectedPeers().length === 1);
+    return { admin, gate };
+  };
+
+  it('blocks a revoked pass on the other device until it is restored', async () => {
+    const { admin, gate } = await startPaired();
+    const scanner = createScanner(gate);
+
+    await admin.revokePass('DAYPASS', 'Stolen');
+    await waitFor(() => gate.getRevocation('DAYPASS') !== undefined);
+    expect(await scanner.handleScannedQRCode('DAYPASS')).toMatchObject({
+      allowed: false,
+      reason: 'Pass revoked: Stolen',
+    });
+
+    await admin.restorePass('DAYPASS');
+    await waitFor(() => gate.getRevocation('DAYPASS') === undefined);
+    expect((await scanner.handleScannedQRCode('DAYPASS')).allowed).toBe(true);
+  });
+
+  it('keeps the later restore when the revocation arrives after it', async () => {
+    const { admin, gate } = await startPaired();
+
+    reversing = true;
+    reversed = 0;
+    await admin.revokePass('DAYPASS', 'Stolen');
+    await admin.restorePass('DAYPASS');
+    expect(reversed).toBeGreaterThanOrEqual(2);
+
+    // Past the longest delay: both changes have arrived, the revocation last
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    expect(gate.getRevocation('DAYPASS')).toBeUndefined();
+    expect((await createScanner(gate).handleScannedQRCode('DAYPASS')).allowed).toBe(true);
+  });
+});
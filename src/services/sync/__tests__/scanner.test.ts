@@ -0,0 +1,76 @@
+import { createScanner } from '../scanner';
+import { TODAY, createTestNetwork, offsetClock, silenceLogs, waitFor } from './setup/engines';
+
+const PASSES = {
+  DAYPASS: { type: 'infinite' as const, [TODAY]: false },
+  OTHERPASS: { type: 'infinite' as const, [TODAY]: false },
+  ONEUSE: { type: 'one-use' as const, [TODAY]: false },
+};
+
+describe('duplicate scan window', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it.each([
+    ['20 seconds', 20 * 1000],
+    ['10 minutes', 10 * 60 * 1000],
+  ])('lets a pass through again 31s later when a peer is %s fast', async (_, skewMs) => {
+    const clock = offsetClock(0);
+    const a = await network.start(`a-${skewMs}`, { clock, config: { initialPasses: PASSES } });
+    const b = await network.start(`b-${skewMs}`, {
+      clock: offsetClock(skewMs),
+      config: { initialPasses: PASSES },
+    });
+
+    // A scan from the fast peer moves our logical clock forward
+    await b.addScanEvent('OTHERPASS', TODAY);
+    await waitFor(() => a.getLocalState().OTHERPASS?.scans.length === 1);
+
+    const scanner = createScanner(a);
+    expect((await scanner.handleScannedQRCode('DAYPASS')).allowed).toBe(true);
+
+    clock.advance(10 * 1000);
+    expect(await scanner.handleScannedQRCode('DAYPASS')).toMatchObject({
+      allowed: false,
+      reason: 'Already scanned within the last 30 seconds',
+    });
+
+    clock.advance(21 * 1000);
+    expect((await scanner.handleScannedQRCode('DAYPASS')).allowed).toBe(true);
+  });
+});
+
+describe('concurrent scans', () => {
+  const network = createTestNetwork();
+  silenceLogs();
+  afterEach(() => network.stopAll());
+
+  it('accepts only one of two simultaneous reads of a one-use pass', async () => {
+    const engine = await network.start('a', { config: { initialPasses: PASSES } });
+    const scanner = createScanner(engine);
+
+    const results = await Promise.all([
+      scanner.handleScannedQRCode('ONEUSE'),
+      scanner.handleScannedQRCode('ONEUSE'),
+    ]);
+
+    expect(results.map((result) => result.allowed).sort()).toEqual([false, true]);
+    expect(results.find((result) => !result.allowed)?.reason).toBe(
+      'One-use pass already used today'
+    );
+    expect(await engine.getScansForQROnDate('ONEUSE', TODAY)).toHaveLength(1);
+  });
+
+  it('accepts only one when two scanners of one engine read the pass at once', async () => {
+    const engine = await network.start('b', { config: { initialPasses: PASSES } });
+
+    const results = await Promise.all([
+      createScanner(engine).handleScannedQRCode('ONEUSE'),
+      createScanner(engine).handleScannedQRCode('ONEUSE'),
+    ]);
+
+    expect(results.map((result) => result.allowed).sort()).toEqual([false, true]);
+    expect(await engine.getScansForQROnDate('ONEUSE', TODAY)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,71 @@
+import { SEQUENCE_WINDOW, SequenceWindow, checkSequence, isAccepted } from '../sequence';
+
+// Feed a run of sequence numbers through a fresh window
+function windowAfter(runStart: number, ...sequenceNums: number[]): SequenceWindow {
+  let window: SequenceWindow | undefined;
+  for (const sequenceNum of sequenceNums) {
+    window = checkSequence(window, runStart, sequenceNum).window;
+  }
+  return window!;
+}
+
+describe('checkSequence', () => {
+  it('accepts the first message from a peer', () => {
+    const { verdict, window } = checkSequence(undefined, 100, 105);
+
+    expect(verdict).toBe('first');
+    expect(window).toEqual({ runStart: 100, highest: 105, seen: new Set([105]) });
+  });
+
+  it('accepts a newer message as next', () => {
+    const { verdict, window } = checkSequence(windowAfter(100, 105), 100, 107);
+
+    expect(verdict).toBe('next');
+    expect(window.highest).toBe(107);
+  });
+
+  it('accepts an older message not seen yet as reordered', () => {
+    const { verdict, window } = checkSequence(windowAfter(100, 105, 107), 100, 106);
+
+    expect(verdict).toBe('reordered');
+    expect(window.highest).toBe(107);
+    expect(window.seen.has(106)).toBe(true);
+  });
+
+  it('starts a new window when the peer restarted', () => {
+    const { verdict, window } = checkSequence(windowAfter(100, 105, 107), 200, 200);
+
+    expect(verdict).toBe('restarted');
+    expect(window).toEqual({ runStart: 200, highest: 200, seen: new Set([200]) });
+  });
+
+  it('drops a message seen already as replayed', () => {
+    const before = windowAfter(100, 105, 107);
+    const { verdict } = checkSequence(before, 100, 105);
+
+    expect(verdict).toBe('replayed');
+    expect(before.highest).toBe(107);
+  });
+
+  it('drops messages from an earlier run or older than the window as stale', () => {
+    expect(checkSequence(windowAfter(200, 210), 100, 300).verdict).toBe('stale');
+
+    const window = windowAfter(100, 100, 100 + SEQUENCE_WINDOW + 1);
+    expect(checkSequence(window, 100, 101).verdict).toBe('stale');
+  });
+
+  it('forgets numbers that fell out of the window', () => {
+    const window = windowAfter(100, 100, 101, 100 + SEQUENCE_WINDOW + 5);
+    expect(window.seen).toEqual(new Set([100 + SEQUENCE_WINDOW + 5]));
+  });
+});
+
+describe('isAccepted', () => {
+  it('accepts every verdict but replayed and stale', () => {
+    expect(['first', 'next', 'reordered', 'restarted'].every((v) => isAccepted(v as never))).toBe(
+      true
+    );
+    expect(isAccepted('replayed')).toBe(false);
+    expect(isAccepted('stale')).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { Clock, systemClock } from '../../clock';
+import { SyncConfig, SyncEngine } from '../../engine';
+import { createMemoryStore } from '../../memoryStore';
+import { MemoryHub, MemoryHubOptions, createMemoryHub } from '../../memoryTransport';
+import { ScanStore } from '../../store';
+
+/**
+ * Sync engines talking over the in-memory transport, for tests that need more
+ * than one device. Intervals are short so discovery, ACKs and catch-up happen
+ * within a test.
+ */
+
+export const FAST_CONFIG: Partial<SyncConfig> = {
+  heartbeatIntervalMs: 200,
+  ackRetryIntervalMs: 200,
+  reconciliationIntervalMs: 500,
+  fullSyncIntervalMs: 1000,
+  broadcastQueueIntervalMs: 200,
+  peerTimeoutMs: 3000,
+};
+
+export const TODAY = '14nov';
+
+export interface TestNetwork {
+  hub: MemoryHub;
+  /** Start an engine reachable at the given address (a fresh in-memory store unless one is passed) */
+  start(
+    address: string,
+    options?: { storage?: ScanStore; config?: Partial<SyncConfig>; clock?: Clock }
+  ): Promise<SyncEngine>;
+  /** Stop every engine started on this network */
+  stopAll(): void;
+}
+
+export function createTestNetwork(options: MemoryHubOptions = {}): TestNetwork {
+  const hub = createMemoryHub(options);
+  const engines: SyncEngine[] = [];
+
+  return {
+    hub,
+    async start(address, { storage = createMemoryStore(), config, clock } = {}) {
+      const engine = new SyncEngine({
+        storage,
+        transport: hub.createTransport(address),
+        clock,
+        config: { ...FAST_CONFIG, ...config },
+      });
+      engines.push(engine);
+      await engine.start();
+      return engine;
+    },
+    stopAll() {
+      engines.splice(0).forEach((engine) => engine.stop());
+    },
+  };
+}
+
+/**
+ * Keep the engines' logs out of the test output
+ */
+export function silenceLogs() {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+}
+
+export function scanCount(engine: SyncEngine): number {
+  return Object.values(engine.getLocalState()).reduce(
+    (count, pass) => count + pass.scans.length,
+    0
+  );
+}
+
+export function hasScan(engine: SyncEngine, scanId: string): boolean {
+  return Object.values(engine.getLocalState()).some((pass) =>
+    pass.scans.some((scan) => scan.scanId === scanId)
+  );
+}
+
+export function passCodes(engine: SyncEngine): string[] {
+  return Object.keys(engine.getLocalState());
+}
+
+export async function waitFor(condition: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Condition not met within ${timeoutMs}ms`);
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+/**
+ * The system clock shifted by an offset the test can move
+ */
+export function offsetClock(offsetMs: number): Clock & { advance(ms: number): void } {
+  let offset = offsetMs;
+  return {
+    ...systemClock,
+    now: () => Date.now() + offset,
+    advance: (ms) => {
+      offset += ms;
+    },
+  };
+}
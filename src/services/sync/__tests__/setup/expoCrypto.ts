@@ -0,0 +1,11 @@
+import { randomBytes, randomUUID as nodeRandomUUID } from 'crypto';
+
+// expo-crypto for Jest: the native module isn't there, Node's crypto does the same job
+
+export function randomUUID(): string {
+  return nodeRandomUUID();
+}
+
+export function getRandomBytes(length: number): Uint8Array {
+  return new Uint8Array(randomBytes(length));
+}
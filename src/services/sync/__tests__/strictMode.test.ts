@@ -0,0 +1,63 @@
+import { SyncEngine } from '../engine';
+import { TODAY, createTestNetwork, silenceLogs, waitFor } from './setup/engines';
+
+const PASSES = { ONEUSE: { type: 'one-use' as const, [TODAY]: false } };
+
+describe('strict mode claims', () => {
+  // Devices whose incoming and outgoing messages are dropped
+  const cutOff = new Set<string>();
+  const network = createTestNetwork({
+    route: (from, to) => (cutOff.has(from) || cutOff.has(to) ? [] : [0]),
+  });
+  silenceLogs();
+  afterEach(() => {
+    network.stopAll();
+    cutOff.clear();
+  });
+
+  const startConnected = async (addresses: string[]): Promise<SyncEngine[]> => {
+    const engines: SyncEngine[] = [];
+    for (const address of addresses) {
+      const engine = await network.start(address, { config: { initialPasses: PASSES } });
+      await engine.setStrictModeConfig({ enabled: true, timeoutMs: 300 });
+      engines.push(engine);
+    }
+    await waitFor(() =>
+      engines.every((engine) => engine.getConnectedPeers().length === addresses.length - 1)
+    );
+    return engines;
+  };
+
+  it('grants a claim once a majority votes for it', async () => {
+    const [a] = await startConnected(['a1', 'b1', 'c1']);
+
+    expect(await a.claimPass('ONEUSE', TODAY)).toMatchObject({ granted: true, quorum: 2 });
+  });
+
+  it('refuses a claim while a peer holds the pass', async () => {
+    const [a, b] = await startConnected(['a2', 'b2']);
+
+    expect((await b.claimPass('ONEUSE', TODAY)).granted).toBe(true);
+    expect(await a.claimPass('ONEUSE', TODAY)).toMatchObject({
+      granted: false,
+      reason: 'Pass already claimed on another scanner',
+    });
+  });
+
+  it('falls back to the partition policy when too few peers answer in time', async () => {
+    const [a] = await startConnected(['a3', 'b3', 'c3']);
+    cutOff.add('b3');
+    cutOff.add('c3');
+
+    await a.setStrictModeConfig({ partitionPolicy: 'reject' });
+    expect(await a.claimPass('ONEUSE', TODAY)).toMatchObject({
+      granted: false,
+      reason: 'Not enough scanners reachable to confirm this pass',
+      grants: 1,
+      quorum: 2,
+    });
+
+    await a.setStrictModeConfig({ partitionPolicy: 'accept' });
+    expect(await a.claimPass('ONEUSE', TODAY)).toMatchObject({ granted: true, grants: 1 });
+  });
+});
@@ -0,0 +1,43 @@
+import { getActiveScans, getTombstonesForScans, isScanVoided } from '../tombstones';
+import { LocalState, PassState, ScanEvent, ScanTombstone } from '../types';
+
+function scan(scanId: string, qrCode = 'QR1'): ScanEvent {
+  return { scanId, qrCode, date: '14nov', timestamp: 1000, deviceId: 'device-a' };
+}
+
+function tombstone(scanId: string, qrCode = 'QR1'): ScanTombstone {
+  return { scanId, qrCode, date: '14nov', deviceId: 'device-b', timestamp: 2000 };
+}
+
+describe('voided scans', () => {
+  const pass: PassState = {
+    type: 'one-use',
+    scans: [scan('1'), scan('2')],
+    tombstones: [tombstone('1'), tombstone('not-arrived-yet')],
+  };
+
+  it('treat a scan with a tombstone as voided', () => {
+    expect(isScanVoided(pass, '1')).toBe(true);
+    expect(isScanVoided(pass, '2')).toBe(false);
+    expect(isScanVoided(undefined, '1')).toBe(false);
+  });
+
+  it('leave voided scans out of the active ones', () => {
+    expect(getActiveScans(pass).map((s) => s.scanId)).toEqual(['2']);
+    expect(getActiveScans({ type: 'infinite', scans: [scan('3')] })).toHaveLength(1);
+    expect(getActiveScans(undefined)).toEqual([]);
+  });
+});
+
+describe('getTombstonesForScans', () => {
+  it('collects the tombstones of the given scans across passes', () => {
+    const state: LocalState = {
+      QR1: { type: 'one-use', scans: [scan('1'), scan('2')], tombstones: [tombstone('1')] },
+      QR2: { type: 'infinite', scans: [scan('3', 'QR2')], tombstones: [tombstone('3', 'QR2')] },
+    };
+
+    const found = getTombstonesForScans(state, [scan('1'), scan('2'), scan('3', 'QR2')]);
+    expect(found.map((t) => t.scanId)).toEqual(['1', '3']);
+    expect(getTombstonesForScans(state, [scan('2')])).toEqual([]);
+  });
+});
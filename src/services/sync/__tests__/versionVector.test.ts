@@ -0,0 +1,87 @@
+import {
+  buildVersionVector,
+  getHighestSeq,
+  getMissingScanRanges,
+  getScansInRanges,
+  getScansMissingFrom,
+} from '../versionVector';
+import { LocalState, ScanEvent } from '../types';
+
+function scan(deviceId: string, seq: number | undefined, qrCode = 'QR1'): ScanEvent {
+  return { scanId: `${deviceId}-${seq}`, qrCode, date: '14nov', timestamp: 1000, deviceId, seq };
+}
+
+function stateOf(...scans: ScanEvent[]): LocalState {
+  const state: LocalState = {};
+  for (const s of scans) {
+    (state[s.qrCode] ||= { type: 'infinite', scans: [] }).scans.push(s);
+  }
+  return state;
+}
+
+describe('buildVersionVector', () => {
+  it('counts only the contiguous sequences of each origin', () => {
+    const state = stateOf(
+      scan('a', 1),
+      scan('a', 2, 'QR2'),
+      scan('a', 4),
+      scan('b', 2),
+      scan('c', undefined)
+    );
+
+    expect(buildVersionVector(state)).toEqual({ a: 2, b: 0 });
+  });
+});
+
+describe('getScansMissingFrom', () => {
+  const state = stateOf(scan('a', 1), scan('a', 2), scan('b', 1), scan('c', undefined));
+
+  it('returns the scans above the peer’s vector', () => {
+    const missing = getScansMissingFrom(state, { a: 1 }).map((s) => s.scanId);
+    expect(missing.sort()).toEqual(['a-2', 'b-1']);
+  });
+
+  it('includes unsequenced scans only for a peer with an empty vector', () => {
+    expect(getScansMissingFrom(state, {})).toHaveLength(4);
+    expect(getScansMissingFrom(state, { a: 2, b: 1 })).toEqual([]);
+  });
+});
+
+describe('getHighestSeq', () => {
+  it('returns the highest sequence held, gaps or not', () => {
+    const state = stateOf(scan('a', 1), scan('a', 5), scan('b', 9));
+    expect(getHighestSeq(state, 'a')).toBe(5);
+    expect(getHighestSeq(state, 'z')).toBe(0);
+  });
+});
+
+describe('getMissingScanRanges', () => {
+  it('lists the gaps up to the advertised sequence as ranges', () => {
+    const state = stateOf(scan('a', 2), scan('a', 3), scan('a', 6), scan('a', 9), scan('b', 4));
+
+    expect(getMissingScanRanges(state, 'a', 8)).toEqual([
+      { origin: 'a', from: 1, to: 1 },
+      { origin: 'a', from: 4, to: 5 },
+      { origin: 'a', from: 7, to: 8 },
+    ]);
+  });
+
+  it('returns nothing when every scan is held', () => {
+    expect(getMissingScanRanges(stateOf(scan('a', 1), scan('a', 2)), 'a', 2)).toEqual([]);
+  });
+});
+
+describe('getScansInRanges', () => {
+  it('selects the scans of the origin within the ranges', () => {
+    const state = stateOf(
+      scan('a', 1),
+      scan('a', 2),
+      scan('a', 3),
+      scan('b', 2),
+      scan('a', undefined)
+    );
+
+    const scans = getScansInRanges(state, [{ origin: 'a', from: 2, to: 3 }]);
+    expect(scans.map((s) => s.scanId).sort()).toEqual(['a-2', 'a-3']);
+  });
+});
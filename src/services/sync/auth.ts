@@ -0,0 +1,65 @@
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+
+/**
+ * Message authentication with an event-wide shared secret.
+ *
+ * Every outgoing message is wrapped in an envelope:
+ *
+ *   [AUTH_MAGIC: u8][tag: 16 bytes][payload]
+ *
+ * where tag is HMAC-SHA256(key, payload) truncated to 128 bits and key is
+ * derived from the event secret with HKDF. The payload is the encoded message
+ * (JSON or binary), so authentication is independent of the wire format.
+ */
+export const AUTH_MAGIC = 0xa5;
+const TAG_SIZE = 16;
+const KEY_INFO = 'offline-scanner/sync-hmac/v1';
+
+/**
+ * Derive the HMAC key from an event secret
+ */
+export function deriveAuthKey(eventSecret: string): Uint8Array {
+  return hkdf(sha256, utf8ToBytes(eventSecret), undefined, KEY_INFO, 32);
+}
+
+/**
+ * Wrap a payload in a signed envelope
+ */
+export function signPayload(key: Uint8Array, payload: Uint8Array): Uint8Array {
+  const tag = hmac(sha256, key, payload).subarray(0, TAG_SIZE);
+
+  const envelope = new Uint8Array(1 + TAG_SIZE + payload.length);
+  envelope[0] = AUTH_MAGIC;
+  envelope.set(tag, 1);
+  envelope.set(payload, 1 + TAG_SIZE);
+  return envelope;
+}
+
+/**
+ * Verify a signed envelope and return its payload, or null if it was not
+ * signed with our key (unsigned, truncated or tampered with)
+ */
+export function verifyPayload(key: Uint8Array, envelope: Uint8Array): Uint8Array | null {
+  if (envelope.length < 1 + TAG_SIZE || envelope[0] !== AUTH_MAGIC) {
+    return null;
+  }
+
+  const tag = envelope.subarray(1, 1 + TAG_SIZE);
+  const payload = envelope.subarray(1 + TAG_SIZE);
+  const expected = hmac(sha256, key, payload).subarray(0, TAG_SIZE);
+
+  return constantTimeEqual(tag, expected) ? payload : null;
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,23 @@
+/**
+ * Time source for the sync engine: timestamps and every timer it runs. The app
+ * uses the system clock; tests and the simulator can pass a virtual one.
+ */
+
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+export interface Clock {
+  /** Milliseconds since epoch */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle),
+};
@@ -0,0 +1,50 @@
+import { HeartbeatEcho } from './types';
+
+/**
+ * Peer clock offset and round-trip time from heartbeats, the same way NTP does it.
+ *
+ * Heartbeats are unicast to each peer and echo the last heartbeat received from it:
+ *
+ *   we send heartbeat        at t0 (our clock)
+ *   peer receives it         at t1 (peer clock)  -> echoed back as { timestamp: t0, receivedAt: t1 }
+ *   peer sends its heartbeat at t2 (peer clock)  -> message.timestamp
+ *   we receive it            at t3 (our clock)
+ *
+ * The time the peer held the echo (t2 - t1) is subtracted out, so the 10s
+ * heartbeat interval doesn't show up as latency.
+ */
+export interface ClockSample {
+  clockOffset: number; // Peer clock minus ours (ms)
+  roundTripTime: number; // ms
+}
+
+// Weight of a new sample in the running estimate
+const SMOOTHING = 0.25;
+
+/**
+ * Estimate the peer's clock offset and the round-trip time from one heartbeat exchange
+ */
+export function sampleClock(echo: HeartbeatEcho, sentAt: number, receivedAt: number): ClockSample {
+  const t0 = echo.timestamp;
+  const t1 = echo.receivedAt;
+  const t2 = sentAt;
+  const t3 = receivedAt;
+
+  return {
+    clockOffset: (t1 - t0 + (t2 - t3)) / 2,
+    roundTripTime: Math.max(0, t3 - t0 - (t2 - t1)),
+  };
+}
+
+/**
+ * Fold a new sample into the running estimate (exponential moving average)
+ */
+export function smoothClock(previous: ClockSample | null, sample: ClockSample): ClockSample {
+  if (!previous) return sample;
+
+  return {
+    clockOffset: previous.clockOffset + SMOOTHING * (sample.clockOffset - previous.clockOffset),
+    roundTripTime:
+      previous.roundTripTime + SMOOTHING * (sample.roundTripTime - previous.roundTripTime),
+  };
+}
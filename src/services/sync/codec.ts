@@ -0,0 +1,310 @@
+import { encode, decode } from '@msgpack/msgpack';
+import { deflateSync, inflateSync, strFromU8 } from 'fflate';
+import { EventKey, HeartbeatEcho, HybridTimestamp, ScanRange, StateMessage } from './types';
+
+/**
+ * Wire format for StateMessages.
+ *
+ * Version 1 is plain JSON (first byte is always "{").
+ * Version 2 is a binary frame:
+ *
+ *   [version: u8][flags: u8][MessagePack body, optionally deflated]
+ *
+ * The body stores objects as positional arrays instead of maps so field names
+ * are never sent, and UUIDs are sent as 16 raw bytes. Element 0 of each array
+ * holds any fields the schema doesn't know (or null), so newer senders can add
+ * fields without breaking older receivers.
+ *
+ * Field and message type lists are append-only: never reorder or remove entries.
+ */
+export const JSON_PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION = 2;
+
+const FLAG_DEFLATE = 0x01;
+const COMPRESSION_THRESHOLD = 512; // Only try compressing bodies larger than this
+const JSON_FIRST_BYTE = 0x7b; // "{"
+
+// Lowercase only, so decoding gives back exactly the string that was encoded
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const MESSAGE_TYPES: StateMessage['type'][] = [
+  'delta',
+  'full-state',
+  'state-request',
+  'ack',
+  'heartbeat',
+  'state-hash',
+  'merkle-nodes',
+  'bucket-request',
+  'claim',
+  'scan-request',
+  'key-update',
+];
+
+interface FieldCodec {
+  pack: (value: any) => unknown;
+  unpack: (value: any) => unknown;
+}
+
+interface Schema {
+  fields: string[];
+  codecs: Record<string, FieldCodec>;
+}
+
+const uuidCodec: FieldCodec = {
+  pack: (value: string) => (UUID_PATTERN.test(value) ? uuidToBytes(value) : value),
+  unpack: (value: string | Uint8Array) =>
+    value instanceof Uint8Array ? bytesToUuid(value) : value,
+};
+
+// Hybrid logical clocks travel as [wallTime, counter]
+const hlcCodec: FieldCodec = {
+  pack: (hlc: HybridTimestamp) => [hlc.wallTime, hlc.counter],
+  unpack: ([wallTime, counter]: number[]) => ({ wallTime, counter }),
+};
+
+const SCAN_SCHEMA: Schema = {
+  fields: ['scanId', 'qrCode', 'timestamp', 'deviceId', 'date', 'seq', 'hlc'],
+  codecs: {
+    scanId: uuidCodec,
+    deviceId: uuidCodec,
+    hlc: hlcCodec,
+  },
+};
+
+const TOMBSTONE_SCHEMA: Schema = {
+  fields: ['scanId', 'qrCode', 'date', 'deviceId', 'timestamp', 'hlc'],
+  codecs: {
+    scanId: uuidCodec,
+    deviceId: uuidCodec,
+    hlc: hlcCodec,
+  },
+};
+
+const tombstoneListCodec: FieldCodec = {
+  pack: (tombstones: object[]) => tombstones.map((tombstone) => pack(tombstone, TOMBSTONE_SCHEMA)),
+  unpack: (tombstones: unknown[][]) =>
+    tombstones.map((tombstone) => unpack(tombstone, TOMBSTONE_SCHEMA)),
+};
+
+const REVOCATION_SCHEMA: Schema = {
+  fields: ['qrCode', 'revoked', 'reason', 'deviceId', 'timestamp', 'hlc'],
+  codecs: {
+    deviceId: uuidCodec,
+    hlc: hlcCodec,
+  },
+};
+
+const DEFINITION_SCHEMA: Schema = {
+  fields: ['qrCode', 'type', 'allowedDates', 'metadata', 'deviceId', 'timestamp', 'hlc'],
+  codecs: {
+    deviceId: uuidCodec,
+    hlc: hlcCodec,
+  },
+};
+
+const scanListCodec: FieldCodec = {
+  pack: (scans: object[]) => scans.map((scan) => pack(scan, SCAN_SCHEMA)),
+  unpack: (scans: unknown[][]) => scans.map((scan) => unpack(scan, SCAN_SCHEMA)),
+};
+
+const PASS_SCHEMA: Schema = {
+  fields: ['type', 'scans', 'tombstones'],
+  codecs: {
+    scans: scanListCodec,
+    tombstones: tombstoneListCodec,
+  },
+};
+
+const MESSAGE_SCHEMA: Schema = {
+  fields: [
+    'type',
+    'messageId',
+    'ackMessageId',
+    'deltas',
+    'fullState',
+    'stateHash',
+    'merkleLevel',
+    'merkleNodes',
+    'merkleScope',
+    'buckets',
+    'versionVector',
+    'sequenceNum',
+    'deviceId',
+    'timestamp',
+    'protocolVersion',
+    'eventId',
+    'claim',
+    'claimGranted',
+    'hlc',
+    'heartbeatEcho',
+    'tombstones',
+    'revocations',
+    'passDefinitions',
+    'sequenceStart',
+    'scanRanges',
+    'scanSeq',
+    'viaBroadcast',
+    'eventKey',
+    'recordsHash',
+  ],
+  codecs: {
+    type: {
+      pack: (type: StateMessage['type']) => {
+        const index = MESSAGE_TYPES.indexOf(type);
+        return index >= 0 ? index : type;
+      },
+      unpack: (value: number | string) =>
+        typeof value === 'number' ? MESSAGE_TYPES[value] : value,
+    },
+    messageId: uuidCodec,
+    ackMessageId: uuidCodec,
+    deviceId: uuidCodec,
+    hlc: hlcCodec,
+    heartbeatEcho: {
+      pack: (echo: HeartbeatEcho) => [echo.timestamp, echo.receivedAt],
+      unpack: ([timestamp, receivedAt]: number[]) => ({ timestamp, receivedAt }),
+    },
+    eventKey: {
+      pack: (eventKey: EventKey) => [eventKey.keyId, eventKey.key],
+      unpack: ([keyId, key]: [number, string]) => ({ keyId, key }),
+    },
+    deltas: scanListCodec,
+    tombstones: tombstoneListCodec,
+    scanRanges: {
+      pack: (ranges: ScanRange[]) =>
+        ranges.map((range) => [uuidCodec.pack(range.origin), range.from, range.to]),
+      unpack: (ranges: [string | Uint8Array, number, number][]) =>
+        ranges.map(([origin, from, to]) => ({ origin: uuidCodec.unpack(origin), from, to })),
+    },
+    revocations: {
+      pack: (revocations: object[]) =>
+        revocations.map((revocation) => pack(revocation, REVOCATION_SCHEMA)),
+      unpack: (revocations: unknown[][]) =>
+        revocations.map((revocation) => unpack(revocation, REVOCATION_SCHEMA)),
+    },
+    passDefinitions: {
+      pack: (definitions: object[]) =>
+        definitions.map((definition) => pack(definition, DEFINITION_SCHEMA)),
+      unpack: (definitions: unknown[][]) =>
+        definitions.map((definition) => unpack(definition, DEFINITION_SCHEMA)),
+    },
+    fullState: {
+      pack: (state: Record<string, object>) => mapValues(state, (pass) => pack(pass, PASS_SCHEMA)),
+      unpack: (state: Record<string, unknown[]>) =>
+        mapValues(state, (pass) => unpack(pass, PASS_SCHEMA)),
+    },
+  },
+};
+
+/**
+ * Encode a message in the binary wire format
+ */
+export function encodeMessage(message: StateMessage): Uint8Array {
+  let body = encode(pack(message, MESSAGE_SCHEMA));
+  let flags = 0;
+
+  if (body.length > COMPRESSION_THRESHOLD) {
+    const compressed = deflateSync(body);
+    if (compressed.length < body.length) {
+      body = compressed;
+      flags |= FLAG_DEFLATE;
+    }
+  }
+
+  const frame = new Uint8Array(2 + body.length);
+  frame[0] = PROTOCOL_VERSION;
+  frame[1] = flags;
+  frame.set(body, 2);
+  return frame;
+}
+
+/**
+ * Decode a message in either wire format.
+ * Returns the protocol version it was encoded with.
+ */
+export function decodeMessage(data: Uint8Array): { message: StateMessage; version: number } {
+  if (data.length === 0) {
+    throw new Error('Empty message');
+  }
+
+  if (data[0] === JSON_FIRST_BYTE) {
+    return { message: JSON.parse(strFromU8(data)), version: JSON_PROTOCOL_VERSION };
+  }
+
+  const version = data[0];
+  if (version !== PROTOCOL_VERSION) {
+    throw new Error(`Unsupported protocol version ${version}`);
+  }
+
+  const flags = data[1];
+  let body = data.subarray(2);
+  if (flags & FLAG_DEFLATE) {
+    body = inflateSync(body);
+  }
+
+  const message = unpack(decode(body) as unknown[], MESSAGE_SCHEMA) as unknown as StateMessage;
+  return { message, version };
+}
+
+function pack(obj: object, schema: Schema): unknown[] {
+  const record = obj as Record<string, unknown>;
+  const packed: unknown[] = [null];
+
+  let extras: Record<string, unknown> | null = null;
+  for (const key in record) {
+    if (record[key] !== undefined && !schema.fields.includes(key)) {
+      (extras ||= {})[key] = record[key];
+    }
+  }
+  packed[0] = extras;
+
+  schema.fields.forEach((field, index) => {
+    const value = record[field];
+    const codec = schema.codecs[field];
+    packed[index + 1] = value === undefined ? null : codec ? codec.pack(value) : value;
+  });
+
+  // Trailing empty fields cost a byte each - drop them
+  while (packed.length > 1 && packed[packed.length - 1] === null) {
+    packed.pop();
+  }
+
+  return packed;
+}
+
+function unpack(packed: unknown[], schema: Schema): Record<string, unknown> {
+  const obj: Record<string, unknown> = { ...((packed[0] as Record<string, unknown>) || {}) };
+
+  // Fields beyond our schema come from a newer sender and are ignored
+  schema.fields.forEach((field, index) => {
+    const value = packed[index + 1];
+    if (value === null || value === undefined) return;
+    const codec = schema.codecs[field];
+    obj[field] = codec ? codec.unpack(value) : value;
+  });
+
+  return obj;
+}
+
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  const result: Record<string, U> = {};
+  for (const key in record) {
+    result[key] = fn(record[key]);
+  }
+  return result;
+}
+
+function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
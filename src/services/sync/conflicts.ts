@@ -0,0 +1,53 @@
+import { compareHlc, scanHlc } from './hlc';
+import { ScanConflict, ScanEvent } from './types';
+
+/**
+ * Deterministic order for competing scans of a one-use pass: earliest hybrid
+ * logical clock wins, ties go to the lower device ID, then the lower scan ID.
+ * Every device picks the same winner regardless of the order the scans arrived in.
+ */
+export function compareConflictingScans(a: ScanEvent, b: ScanEvent): number {
+  const byClock = compareHlc(scanHlc(a), scanHlc(b));
+  if (byClock !== 0) return byClock;
+  if (a.deviceId !== b.deviceId) return a.deviceId < b.deviceId ? -1 : 1;
+  if (a.scanId !== b.scanId) return a.scanId < b.scanId ? -1 : 1;
+  return 0;
+}
+
+/**
+ * Find double entries of a one-use pass: more than one accepted scan on the same date
+ */
+export function detectOneUseConflicts(
+  qrCode: string,
+  scans: ScanEvent[],
+  detectedAt: number
+): ScanConflict[] {
+  const scansByDate: Record<string, ScanEvent[]> = {};
+  for (const scan of scans) {
+    (scansByDate[scan.date] ||= []).push(scan);
+  }
+
+  const conflicts: ScanConflict[] = [];
+  for (const date in scansByDate) {
+    const competing = scansByDate[date];
+    if (competing.length < 2) continue;
+
+    const ordered = [...competing].sort(compareConflictingScans);
+    conflicts.push({
+      qrCode,
+      date,
+      winnerScanId: ordered[0].scanId,
+      scans: ordered,
+      detectedAt,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Key a conflict is stored under (one conflict per pass and date)
+ */
+export function conflictKey(qrCode: string, date: string): string {
+  return `${qrCode}|${date}`;
+}
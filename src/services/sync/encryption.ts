@@ -0,0 +1,71 @@
+import { gcm } from '@noble/ciphers/aes';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+
+/**
+ * Payload encryption with AES-256-GCM.
+ *
+ * Encrypted datagrams (before fragmentation) look like:
+ *
+ *   [ENCRYPTION_MAGIC: u8][keyId: u8][nonce: 12 bytes][ciphertext + 16 byte tag]
+ *
+ * The two header bytes are bound as associated data, so the key id can't be
+ * swapped without failing authentication. keyId selects the event key from the
+ * receiver's keyring, which is what lets devices rotate keys at different times.
+ */
+export const ENCRYPTION_MAGIC = 0xe5;
+export const NONCE_SIZE = 12;
+const HEADER_SIZE = 2;
+const KEY_INFO = 'offline-scanner/sync-aes-gcm/v1';
+
+/**
+ * Derive the AES key from an event secret
+ */
+export function deriveEncryptionKey(eventSecret: string): Uint8Array {
+  return hkdf(sha256, utf8ToBytes(eventSecret), undefined, KEY_INFO, 32);
+}
+
+/**
+ * Encrypt a payload. The nonce must be fresh random bytes for every call.
+ */
+export function encryptPayload(
+  key: Uint8Array,
+  keyId: number,
+  nonce: Uint8Array,
+  plaintext: Uint8Array
+): Uint8Array {
+  const header = new Uint8Array([ENCRYPTION_MAGIC, keyId]);
+  const ciphertext = gcm(key, nonce, header).encrypt(plaintext);
+
+  const envelope = new Uint8Array(HEADER_SIZE + NONCE_SIZE + ciphertext.length);
+  envelope.set(header, 0);
+  envelope.set(nonce, HEADER_SIZE);
+  envelope.set(ciphertext, HEADER_SIZE + NONCE_SIZE);
+  return envelope;
+}
+
+/**
+ * Decrypt a payload with the matching key from the keyring.
+ * Returns null if the payload isn't encrypted, the key is unknown, or authentication fails.
+ */
+export function decryptPayload(
+  keyring: Map<number, Uint8Array>,
+  envelope: Uint8Array
+): Uint8Array | null {
+  if (envelope.length < HEADER_SIZE + NONCE_SIZE || envelope[0] !== ENCRYPTION_MAGIC) {
+    return null;
+  }
+
+  const key = keyring.get(envelope[1]);
+  if (!key) return null;
+
+  const header = envelope.subarray(0, HEADER_SIZE);
+  const nonce = envelope.subarray(HEADER_SIZE, HEADER_SIZE + NONCE_SIZE);
+
+  try {
+    return gcm(key, nonce, header).decrypt(envelope.subarray(HEADER_SIZE + NONCE_SIZE));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,3387 @@
+// services/sync/engine.ts
+import * as Crypto from 'expo-crypto';
+import { serviceEvents } from './events';
+import { RemoteInfo, Transport } from './transport';
+import {
+  LocalState,
+  PassState,
+  ScanEvent,
+  ScanRange,
+  StateMessage,
+  DeviceInfo,
+  EventEnrollment,
+  ScanConflict,
+  PassClaimResult,
+  StrictModeConfig,
+  HybridTimestamp,
+  HeartbeatEcho,
+  ScanTombstone,
+  PassRevocation,
+  PassDefinition,
+  PendingMessage,
+  ScanReplicationStatus,
+  KeyRotationStatus,
+  PassConfig,
+} from './types';
+import { ScanStore } from './store';
+import { Clock, TimerHandle, systemClock } from './clock';
+import {
+  MerkleTree,
+  buildMerkleTree,
+  diffNodes,
+  bucketKey,
+  getScansInBuckets,
+  getTombstonesInBuckets,
+  hashRecords,
+} from './merkle';
+import {
+  buildVersionVector,
+  getScansMissingFrom,
+  getMissingScanRanges,
+  getScansInRanges,
+} from './versionVector';
+import { PROTOCOL_VERSION, encodeMessage, decodeMessage } from './codec';
+import { AUTH_MAGIC, deriveAuthKey, signPayload, verifyPayload } from './auth';
+import {
+  ENCRYPTION_MAGIC,
+  NONCE_SIZE,
+  deriveEncryptionKey,
+  encryptPayload,
+  decryptPayload,
+} from './encryption';
+import { MAX_CONFIG_VERSION } from './pairing';
+import { conflictKey, detectOneUseConflicts } from './conflicts';
+import { MAX_CLOCK_DRIFT_MS, ZERO_HLC, tickHlc, receiveHlc, compareHlc, scanHlc } from './hlc';
+import { sampleClock, smoothClock } from './clockSkew';
+import { getActiveScans, getTombstonesForScans, isScanVoided } from './tombstones';
+import { lwwWins } from './lww';
+import {
+  SEQUENCE_BLOCK,
+  SequenceVerdict,
+  SequenceWindow,
+  checkSequence,
+  isAccepted,
+} from './sequence';
+
+// Import initial QR config
+const INITIAL_QR_CONFIG = require('../../../qr_config.json');
+
+export interface SyncConfig {
+  /** Passes every device starts from (qr_config.json in the app) */
+  initialPasses: Record<string, PassConfig>;
+  /** State summary to all peers (Merkle root and revocation/definition hash; full state only on request) */
+  fullSyncIntervalMs: number;
+  /** Heartbeat to known peers (keeps connections alive, carries the state hash) */
+  heartbeatIntervalMs: number;
+  /** Retry of messages that haven't been acknowledged */
+  ackRetryIntervalMs: number;
+  /** State hash reconciliation with known peers */
+  reconciliationIntervalMs: number;
+  /** Retry of broadcasts that failed to send */
+  broadcastQueueIntervalMs: number;
+  /** Peers not heard from for this long count as disconnected */
+  peerTimeoutMs: number;
+}
+
+// Tuned for 4-5 devices on one network
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  initialPasses: INITIAL_QR_CONFIG,
+  fullSyncIntervalMs: 30000,
+  heartbeatIntervalMs: 10000,
+  ackRetryIntervalMs: 2000,
+  reconciliationIntervalMs: 20000,
+  broadcastQueueIntervalMs: 3000,
+  peerTimeoutMs: 30000,
+};
+
+export interface SyncEngineOptions {
+  storage: ScanStore;
+  transport: Transport;
+  clock?: Clock;
+  config?: Partial<SyncConfig>;
+}
+
+// UUID v4 generator using expo-crypto
+function uuidv4(): string {
+  return Crypto.randomUUID();
+}
+
+// Replicated records that can ride along with the scans in a delta
+type DeltaExtras = Pick<StateMessage, 'tombstones' | 'revocations' | 'passDefinitions'>;
+
+// How long a granted claim blocks other devices while the scan replicates
+const CLAIM_HOLD_MS = 10000;
+
+// Our scans tracked for delivery (see messageScans)
+const MAX_TRACKED_MESSAGES = 500;
+
+// Received message IDs kept for deduplication
+const MAX_RECEIVED_IDS = 1000;
+
+// How long to wait for missing scans before asking an origin for them again
+const SCAN_REQUEST_RETRY_MS = 2000;
+
+// How long a peer has to acknowledge an event key before it is offered again
+const KEY_OFFER_RETRY_MS = 5000;
+
+// After asking one peer for what we miss, don't ask the next peer we hear from for this long
+// (its answer would mostly repeat the first one's)
+const STATE_REQUEST_COOLDOWN_MS = 5000;
+
+/**
+ * Generate a random 256-bit event secret
+ */
+function generateEventSecret(): string {
+  return Array.from(Crypto.getRandomBytes(32), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Leave empty lists off the wire
+ */
+function nonEmpty<T>(list: T[]): T[] | undefined {
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Sort scans by hybrid logical clock, then by deviceId and scanId (deterministic)
+ */
+function sortScans(scans: ScanEvent[]) {
+  scans.sort((a, b) => {
+    const byClock = compareHlc(scanHlc(a), scanHlc(b));
+    if (byClock !== 0) {
+      return byClock;
+    }
+    return a.deviceId.localeCompare(b.deviceId) || a.scanId.localeCompare(b.scanId);
+  });
+}
+
+/**
+ * CRDT sync engine for one device: scan log, peers, ACKs and the timers that keep
+ * devices converged. Storage, transport and clock are injected, so several engines
+ * can run side by side (tests, the simulator). Nothing runs until start().
+ */
+export class SyncEngine {
+  private readonly storage: ScanStore;
+  private readonly clock: Clock;
+  private readonly config: SyncConfig;
+
+  // How messages reach other devices
+  private transport: Transport;
+  private unsubscribeTransport: (() => void) | null = null;
+  private unsubscribeNetworkChange: (() => void) | null = null;
+
+  // Whether start() has run (and stop() hasn't since)
+  private running = false;
+
+  // Device identifier (persisted in memory for this session)
+  private deviceId: string = '';
+
+  // Message sequence: resumed from settings on start, so it only ever goes up
+  private sequenceNumber: number = 0;
+  private sequenceStart: number = 0; // Where this run started (peers spot restarts by it)
+  private sequenceReserved: number = 0; // Highest number saved to settings
+
+  // Sequence of scans originated by this device (persisted with each scan)
+  private scanSequence: number = 0;
+
+  // Local scans are saved one at a time: each takes the next scan sequence number,
+  // which only counts as used once the scan is saved (a failed save leaves no gap)
+  private scanWrites: Promise<unknown> = Promise.resolve();
+
+  // Hybrid logical clock, advanced by local scans, sends and every received message
+  private hlcClock: HybridTimestamp = ZERO_HLC;
+
+  // Revocation status per QR code (last-writer-wins, replicated like scans)
+  private revocations: Record<string, PassRevocation> = {};
+
+  // Passes added or edited during the event (qr_config.json is the baseline)
+  private passDefinitions: Record<string, PassDefinition> = {};
+
+  // In-memory state (loaded from SQLite)
+  private localState: LocalState = {};
+
+  // JSON config state (from qr_config.json)
+  private jsonConfigState: any = {};
+
+  // Known peer devices
+  private readonly knownDevices: Map<string, DeviceInfo> = new Map();
+
+  // Pending messages awaiting ACK (`${messageId}-${peerDeviceId}` -> PendingMessage), mirrored in SQLite
+  private readonly pendingAcks: Map<string, PendingMessage> = new Map();
+
+  // Event keyring (key id -> event secret). The current key signs and encrypts
+  // outgoing messages; every key in the ring is accepted on incoming messages.
+  private eventSecrets: Record<number, string> = {};
+  private currentKeyId: number | null = null;
+
+  // Event this device is enrolled in (null until paired)
+  private enrolledEventId: string | null = null;
+  private isEventAdmin = false;
+
+  // Key rotation started on this device: the new key is offered to every peer and
+  // only becomes the sending key once all connected peers hold it
+  private keyRotation: { keyId: number; holders: Set<string> } | null = null;
+
+  // Key offers awaiting an ACK (messageId -> keyId), and when each peer was last offered one
+  private readonly keyOffers: Map<string, number> = new Map();
+  private readonly keyOfferedAt: Map<string, number> = new Map();
+
+  // HMAC keys derived from the event secrets (empty until a secret is configured)
+  private authKeys: Map<number, Uint8Array> = new Map();
+
+  // AES-256 keys derived from the keyring; any of them is accepted on receive,
+  // so peers that haven't rotated to the current key yet can still be read
+  private encryptionKeys: Map<number, Uint8Array> = new Map();
+
+  // Messages dropped because they failed authentication or decryption
+  private rejectedMessageCount = 0;
+
+  // Double entries of one-use passes, keyed by "qrCode|date"
+  private readonly conflicts: Map<string, ScanConflict> = new Map();
+
+  // Strict mode: one-use passes need a peer quorum before they are accepted
+  private strictMode: StrictModeConfig = {
+    enabled: false,
+    timeoutMs: 300,
+    partitionPolicy: 'reject',
+  };
+
+  // Our claims waiting for votes, keyed by claim message ID (retransmissions get new IDs)
+  private readonly pendingClaimVotes: Map<string, (peerId: string, granted: boolean) => void> =
+    new Map();
+
+  // Claims we voted for (or won ourselves), keyed by "qrCode|date"
+  private readonly grantedClaims: Map<string, { deviceId: string; expiresAt: number }> = new Map();
+
+  // Claims we are currently running ourselves, keyed by "qrCode|date"
+  private readonly localClaims: Set<string> = new Set();
+
+  // Last heartbeat received from each peer, echoed back in our next heartbeat to it
+  private readonly heartbeatEchoes: Map<string, HeartbeatEcho> = new Map();
+
+  // Warn when a peer's clock is further off than this (seconds)
+  private clockSkewThresholdSeconds = 5;
+
+  // Peers that have received each of our scans (scanId -> peer device IDs)
+  private readonly scanDeliveries: Map<string, Set<string>> = new Map();
+
+  // Our scans carried by each sent delta, so its ACKs count as deliveries (messageId -> scanIds)
+  private readonly messageScans: Map<string, string[]> = new Map();
+
+  // Received message IDs for deduplication (keep last 1000)
+  private readonly receivedMessageIds: Set<string> = new Set();
+
+  // Sequence numbers seen from each peer, to spot replayed and stale messages
+  private readonly sequenceWindows: Map<string, SequenceWindow> = new Map();
+
+  // When we last asked for each origin's missing scans (originDeviceId -> time)
+  private readonly scanRequestedAt: Map<string, number> = new Map();
+
+  // When we last asked a single peer for what we miss, and whether we have broadcast a
+  // state request since that no peer has answered yet
+  private lastStateRequestAt = -Infinity;
+  private awaitingDiscovery = false;
+
+  // Periodic sync interval
+  private syncInterval: TimerHandle | null = null;
+
+  // Heartbeat interval
+  private heartbeatInterval: TimerHandle | null = null;
+
+  // ACK retry interval
+  private ackRetryInterval: TimerHandle | null = null;
+
+  // State hash reconciliation interval
+  private reconciliationInterval: TimerHandle | null = null;
+
+  // Broadcast queue retry interval
+  private broadcastQueueInterval: TimerHandle | null = null;
+
+  // QR codes list - dynamically loaded from qr_config.json
+  private qrCodes: string[] = [];
+
+  // Merkle tree of the current state (rebuilt lazily after the scan log changes)
+  private merkleTree: MerkleTree | null = null;
+
+  constructor(options: SyncEngineOptions) {
+    this.storage = options.storage;
+    this.transport = options.transport;
+    this.clock = options.clock ?? systemClock;
+    this.config = { ...DEFAULT_SYNC_CONFIG, ...options.config };
+  }
+
+  /**
+   * Get the Merkle tree of the current state, rebuilding it if the state changed
+   */
+  private getMerkleTree(): MerkleTree {
+    if (!this.merkleTree) {
+      this.merkleTree = buildMerkleTree(this.localState);
+    }
+    return this.merkleTree;
+  }
+
+  /**
+   * Drop the cached Merkle tree (call after every change to the scan log)
+   */
+  private invalidateMerkleTree() {
+    this.merkleTree = null;
+  }
+
+  /**
+   * Calculate hash of current state for reconciliation
+   * Returns the Merkle root over all QR codes and date buckets
+   */
+  private calculateStateHash(): string {
+    return this.getMerkleTree().root;
+  }
+
+  /**
+   * Hash of the pass revocations and definitions, which the scan Merkle tree
+   * doesn't cover
+   */
+  private calculateRecordsHash(): string {
+    return hashRecords({
+      revocation: Object.values(this.revocations),
+      definition: Object.values(this.passDefinitions),
+    });
+  }
+
+  /**
+   * Add message ID to received set for deduplication
+   */
+  private markMessageAsReceived(messageId: string) {
+    this.receivedMessageIds.add(messageId);
+
+    // Keep set size manageable
+    if (this.receivedMessageIds.size > MAX_RECEIVED_IDS) {
+      const idsArray = Array.from(this.receivedMessageIds);
+      const toRemove = idsArray.slice(0, 100); // Remove oldest 100
+      toRemove.forEach((id) => this.receivedMessageIds.delete(id));
+    }
+  }
+
+  /**
+   * Check if message was already received
+   */
+  private isMessageReceived(messageId: string): boolean {
+    return this.receivedMessageIds.has(messageId);
+  }
+
+  /**
+   * Resume the message sequence from settings and reserve the next block of numbers
+   */
+  private async restoreSequenceNumber() {
+    const saved = Number(await this.storage.getSetting('sequence_number')) || 0;
+    this.sequenceNumber = saved;
+    this.sequenceStart = saved;
+    this.sequenceReserved = saved + SEQUENCE_BLOCK;
+    await this.storage.saveSetting('sequence_number', String(this.sequenceReserved));
+  }
+
+  /**
+   * Take the next message sequence number. Another block is reserved in settings
+   * halfway through this one, so the save is done long before the numbers run out.
+   */
+  private nextSequenceNumber(): number {
+    this.sequenceNumber++;
+
+    if (this.sequenceNumber > this.sequenceReserved - SEQUENCE_BLOCK / 2) {
+      this.sequenceReserved += SEQUENCE_BLOCK;
+      this.storage.saveSetting('sequence_number', String(this.sequenceReserved)).catch((error) => {
+        console.error('❌ [SEQUENCE] Failed to save the message sequence:', error);
+      });
+    }
+    return this.sequenceNumber;
+  }
+
+  /**
+   * Check a message's sequence number against those seen from the peer.
+   * Returns undefined for peers that don't send the start of their run (older versions).
+   */
+  private checkMessageSequence(message: StateMessage): SequenceVerdict | undefined {
+    if (message.sequenceStart === undefined) return undefined;
+
+    const { verdict, window } = checkSequence(
+      this.sequenceWindows.get(message.deviceId),
+      message.sequenceStart,
+      message.sequenceNum
+    );
+    this.sequenceWindows.set(message.deviceId, window);
+    return verdict;
+  }
+
+  /**
+   * Advance our hybrid logical clock for a local event
+   */
+  private nextHlc(): HybridTimestamp {
+    this.hlcClock = tickHlc(this.hlcClock, this.clock.now());
+    return this.hlcClock;
+  }
+
+  /**
+   * Advance our hybrid logical clock past a peer's
+   */
+  private observeHlc(remote: HybridTimestamp) {
+    const previous = this.hlcClock;
+    this.hlcClock = receiveHlc(this.hlcClock, remote, this.clock.now());
+
+    if (this.hlcClock === previous) {
+      console.warn(
+        `⚠️  [HLC] Ignoring peer clock ${Math.round((remote.wallTime - this.clock.now()) / 1000)}s ahead of ours`
+      );
+    }
+  }
+
+  /**
+   * Current logical time in ms (at least our wall clock, and never behind any peer
+   * we've heard from). Used for time windows instead of this.clock.now().
+   */
+  getLogicalTime(): number {
+    return Math.max(this.hlcClock.wallTime, this.clock.now());
+  }
+
+  /**
+   * Whether a scan was made within the last windowMs. Our own scans are measured
+   * in wall-clock time elapsed on this device: a fast peer moves our HLC ahead,
+   * and comparing HLCs would keep the window open for as long as the peer's
+   * clock is off. Peers' scans are compared in logical time, ignoring any
+   * stamped further ahead than a clock we would follow.
+   */
+  isRecentScan(scan: ScanEvent, windowMs: number): boolean {
+    if (scan.deviceId === this.deviceId) {
+      return this.clock.now() - scan.timestamp < windowMs;
+    }
+
+    const logicalNow = this.getLogicalTime();
+    const wallTime = scanHlc(scan).wallTime;
+    return wallTime > logicalNow - windowMs && wallTime <= logicalNow + MAX_CLOCK_DRIFT_MS;
+  }
+
+  /**
+   * Encode a message for a single peer.
+   * Uses the binary format only if the peer has advertised support for it.
+   */
+  private encodeForPeer(message: StateMessage, peerIp: string): string | Uint8Array {
+    message.protocolVersion = PROTOCOL_VERSION;
+    message.sequenceStart = this.sequenceStart;
+    message.scanSeq = this.scanSequence;
+    message.eventId = this.enrolledEventId || undefined;
+    message.hlc = this.nextHlc();
+
+    const peer = Array.from(this.knownDevices.values()).find((d) => d.ipAddress === peerIp);
+    if (peer?.protocolVersion && peer.protocolVersion >= PROTOCOL_VERSION) {
+      return encodeMessage(message);
+    }
+    return JSON.stringify(message);
+  }
+
+  /**
+   * Encode a message for broadcast.
+   * Broadcasts stay JSON so devices we haven't met yet (of any version) can read them.
+   */
+  private encodeForBroadcast(message: StateMessage): string {
+    message.protocolVersion = PROTOCOL_VERSION;
+    message.sequenceStart = this.sequenceStart;
+    message.scanSeq = this.scanSequence;
+    message.eventId = this.enrolledEventId || undefined;
+    message.hlc = this.nextHlc();
+    return JSON.stringify(message);
+  }
+
+  /**
+   * Sign and encrypt a payload with the event key (if one is configured),
+   * or with an older key from the ring for a peer that hasn't switched yet
+   */
+  private sealPayload(
+    payload: string | Uint8Array,
+    keyId: number | null = this.currentKeyId
+  ): Uint8Array {
+    const bytes = typeof payload === 'string' ? new TextEncoder().encode(payload) : payload;
+    if (keyId === null) return bytes;
+
+    const signed = signPayload(this.authKeys.get(keyId)!, bytes);
+    return encryptPayload(
+      this.encryptionKeys.get(keyId)!,
+      keyId,
+      Crypto.getRandomBytes(NONCE_SIZE),
+      signed
+    );
+  }
+
+  /**
+   * Verify a signed payload against every key in the ring
+   */
+  private openPayload(data: Uint8Array): Uint8Array | null {
+    for (const key of this.authKeys.values()) {
+      const payload = verifyPayload(key, data);
+      if (payload) return payload;
+    }
+    return null;
+  }
+
+  /**
+   * Send an encoded message to a single peer (signed)
+   */
+  private async sendToPeer(
+    payload: string | Uint8Array,
+    peerIp: string,
+    keyId: number | null = this.currentKeyId
+  ) {
+    await this.transport.send(this.sealPayload(payload, keyId), peerIp);
+  }
+
+  /**
+   * Broadcast an encoded message (signed)
+   */
+  private async broadcast(payload: string | Uint8Array) {
+    await this.transport.broadcast(this.sealPayload(payload));
+  }
+
+  /**
+   * Replace the transport (e.g. an in-memory hub). Only while the engine is stopped.
+   */
+  setTransport(next: Transport) {
+    if (this.running) {
+      throw new Error('Stop the sync engine before replacing its transport');
+    }
+    this.transport = next;
+  }
+
+  /**
+   * Derive signing and encryption keys from the keyring
+   */
+  private applyEventKeys() {
+    this.authKeys = new Map();
+    this.encryptionKeys = new Map();
+
+    for (const id in this.eventSecrets) {
+      this.authKeys.set(Number(id), deriveAuthKey(this.eventSecrets[id]));
+      this.encryptionKeys.set(Number(id), deriveEncryptionKey(this.eventSecrets[id]));
+    }
+
+    console.log(
+      `🔐 [AUTH] Encryption ${this.currentKeyId === null ? 'disabled' : `enabled with key ${this.currentKeyId}`} (${this.encryptionKeys.size} keys accepted)`
+    );
+  }
+
+  /**
+   * Persist the keyring to settings
+   */
+  private async saveEventKeys() {
+    await this.storage.saveSetting(
+      'event_keys',
+      JSON.stringify({ currentKeyId: this.currentKeyId, secrets: this.eventSecrets })
+    );
+  }
+
+  /**
+   * Load the keyring from settings (falls back to a single legacy event secret)
+   */
+  private async loadEventKeys() {
+    const saved = await this.storage.getSetting('event_keys');
+
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      this.eventSecrets = parsed.secrets || {};
+      this.currentKeyId = parsed.currentKeyId ?? null;
+    } else {
+      const legacySecret = await this.storage.getSetting('event_secret');
+      this.eventSecrets = legacySecret ? { 0: legacySecret } : {};
+      this.currentKeyId = legacySecret ? 0 : null;
+    }
+
+    // Resume a key rotation that was under way
+    const rotation = await this.storage.getSetting('key_rotation');
+    const parsedRotation = rotation ? JSON.parse(rotation) : null;
+    this.keyRotation =
+      parsedRotation &&
+      this.eventSecrets[parsedRotation.keyId] !== undefined &&
+      parsedRotation.keyId > (this.currentKeyId ?? -1)
+        ? { keyId: parsedRotation.keyId, holders: new Set(parsedRotation.holders) }
+        : null;
+
+    this.applyEventKeys();
+  }
+
+  /**
+   * Set the event-wide shared secret used to sign, encrypt and verify messages.
+   * The new key becomes current; previous keys stay accepted until retired, so
+   * devices that haven't rotated yet can still be read.
+   * Once set, unsigned or incorrectly signed messages are dropped.
+   */
+  async setEventSecret(secret: string, keyId: number = 0) {
+    this.eventSecrets[keyId] = secret;
+    this.currentKeyId = keyId;
+    this.applyEventKeys();
+    await this.saveEventKeys();
+
+    // A rotation to this key (or an older one) has nothing left to do
+    if (this.keyRotation && this.keyRotation.keyId <= keyId) {
+      this.keyRotation = null;
+      await this.saveKeyRotation();
+    }
+    console.log(
+      `🔐 [AUTH] Event key ${keyId} is now current (${this.authKeys.size} keys accepted)`
+    );
+  }
+
+  /**
+   * Accept an event key on incoming messages without sending with it yet.
+   * Distribute a new key this way first, then make it current with setEventSecret().
+   */
+  async addEventKey(secret: string, keyId: number) {
+    this.eventSecrets[keyId] = secret;
+    this.applyEventKeys();
+    await this.saveEventKeys();
+    console.log(`🔐 [AUTH] Event key ${keyId} accepted (${this.authKeys.size} keys accepted)`);
+  }
+
+  /**
+   * Stop accepting an old event key (the current key can't be retired)
+   */
+  async retireEventKey(keyId: number) {
+    if (keyId === this.currentKeyId) {
+      throw new Error('Cannot retire the current event key');
+    }
+
+    delete this.eventSecrets[keyId];
+    this.applyEventKeys();
+    await this.saveEventKeys();
+    console.log(`🔐 [AUTH] Event key ${keyId} retired (${this.authKeys.size} keys accepted)`);
+  }
+
+  /**
+   * Load the event enrollment from settings
+   */
+  private async loadEnrollment() {
+    const saved = await this.storage.getSetting('event_enrollment');
+    if (!saved) return;
+
+    const parsed = JSON.parse(saved);
+    this.enrolledEventId = parsed.eventId;
+    this.isEventAdmin = Boolean(parsed.isAdmin);
+  }
+
+  /**
+   * Enroll this device in an event (from a scanned pairing QR, or when creating one).
+   *
+   * Joining a different event replaces the keyring and forgets peers from the old
+   * event. A newer config version of the same event rotates the key; older keys stay
+   * accepted so devices that haven't re-paired yet can still be read.
+   */
+  async enrollInEvent(enrollment: EventEnrollment, asAdmin: boolean = false) {
+    const isNewEvent = enrollment.eventId !== this.enrolledEventId;
+
+    if (isNewEvent) {
+      console.log(
+        `🎟️  [PAIRING] Joining event ${enrollment.eventId.substring(0, 8)}... (config v${enrollment.configVersion})`
+      );
+      this.eventSecrets = {};
+      this.currentKeyId = null;
+      this.keyRotation = null;
+      await this.saveKeyRotation();
+      this.knownDevices.clear();
+      this.pendingAcks.clear();
+      await this.storage.clearPendingAcks();
+    } else {
+      console.log(
+        `🎟️  [PAIRING] Updating event ${enrollment.eventId.substring(0, 8)}... to config v${enrollment.configVersion}`
+      );
+    }
+
+    if (this.currentKeyId === null || enrollment.configVersion >= this.currentKeyId) {
+      await this.setEventSecret(enrollment.key, enrollment.configVersion);
+    } else {
+      await this.addEventKey(enrollment.key, enrollment.configVersion);
+    }
+
+    this.enrolledEventId = enrollment.eventId;
+    this.isEventAdmin = isNewEvent ? asAdmin : this.isEventAdmin || asAdmin;
+    await this.storage.saveSetting(
+      'event_enrollment',
+      JSON.stringify({ eventId: this.enrolledEventId, isAdmin: this.isEventAdmin })
+    );
+
+    // Find the other devices of this event
+    await this.broadcastStateRequest();
+  }
+
+  /**
+   * Create a new event with this device as its admin
+   */
+  async createEvent(): Promise<EventEnrollment> {
+    const enrollment: EventEnrollment = {
+      eventId: uuidv4(),
+      key: generateEventSecret(),
+      configVersion: 0,
+    };
+
+    await this.enrollInEvent(enrollment, true);
+    return enrollment;
+  }
+
+  /**
+   * Rotate the event key (admin only). The new key is offered to every connected
+   * peer, sealed with the current one, and we switch to it once they all hold it;
+   * peers follow when they see messages sealed with it, and devices that were away
+   * are offered it when they are next heard from. The previous key stays accepted
+   * until retireEventKey(), so devices that missed the rollout keep working until
+   * then; after that they need the new pairing QR.
+   */
+  async rotateEventKey(): Promise<EventEnrollment> {
+    const current = this.getEnrollment();
+    if (!current || !this.isEventAdmin) {
+      throw new Error('Only the event admin can rotate the event key');
+    }
+    if (this.keyRotation) {
+      throw new Error(`Key v${this.keyRotation.keyId} is still being rolled out`);
+    }
+    if (current.configVersion >= MAX_CONFIG_VERSION) {
+      throw new Error('No config versions left for this event');
+    }
+
+    // Accept-only for now: we keep sending with the current key until every peer holds the new one
+    const keyId = current.configVersion + 1;
+    await this.addEventKey(generateEventSecret(), keyId);
+    this.keyRotation = { keyId, holders: new Set() };
+    await this.saveKeyRotation();
+    console.log(
+      `🔑 [KEY ROTATION] Rolling out key v${keyId} to ${this.getConnectedPeers().length} connected peers`
+    );
+
+    for (const peer of this.getConnectedPeers()) {
+      await this.offerEventKey(peer.deviceId, peer.ipAddress, keyId);
+    }
+    await this.completeKeyRotationIfReady();
+
+    return this.getEnrollment()!;
+  }
+
+  /**
+   * Progress of the key rotation started on this device (null if none is under way)
+   */
+  getKeyRotationStatus(): KeyRotationStatus | null {
+    if (!this.keyRotation) return null;
+
+    const { keyId, holders } = this.keyRotation;
+    const peers = this.getConnectedPeers().map((peer) => peer.deviceId);
+    return {
+      keyId,
+      holders: peers.filter((deviceId) => holders.has(deviceId)),
+      pending: peers.filter((deviceId) => !holders.has(deviceId)),
+    };
+  }
+
+  /**
+   * Switch to the rotated key once every connected peer holds it
+   */
+  private async completeKeyRotationIfReady() {
+    if (!this.keyRotation) return;
+
+    const { keyId, holders } = this.keyRotation;
+    const waitingFor = this.getConnectedPeers().filter((peer) => !holders.has(peer.deviceId));
+    if (waitingFor.length > 0) return;
+
+    console.log(`🔑 [KEY ROTATION] All connected peers hold key v${keyId}, switching to it`);
+    await this.setEventSecret(this.eventSecrets[keyId], keyId);
+  }
+
+  /**
+   * Send a peer an event key, sealed with a key it can read (our current one, or the
+   * older key a peer that hasn't switched yet still uses). At most once per KEY_OFFER_RETRY_MS.
+   */
+  private async offerEventKey(
+    peerDeviceId: string,
+    peerIp: string,
+    keyId: number,
+    sealKeyId: number | null = this.currentKeyId
+  ) {
+    const now = this.clock.now();
+    if (now - (this.keyOfferedAt.get(peerDeviceId) ?? -Infinity) < KEY_OFFER_RETRY_MS) return;
+    this.keyOfferedAt.set(peerDeviceId, now);
+
+    this.nextSequenceNumber();
+    const messageId = uuidv4();
+    this.keyOffers.set(messageId, keyId);
+    if (this.keyOffers.size > MAX_TRACKED_MESSAGES) {
+      const oldest = this.keyOffers.keys().next().value;
+      if (oldest) this.keyOffers.delete(oldest);
+    }
+
+    const message: StateMessage = {
+      type: 'key-update',
+      messageId,
+      eventKey: { keyId, key: this.eventSecrets[keyId] },
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: now,
+    };
+
+    try {
+      await this.sendToPeer(this.encodeForPeer(message, peerIp), peerIp, sealKeyId);
+      console.log(
+        `🔑 [KEY ROTATION] Offered key v${keyId} to ${peerDeviceId.substring(0, 8)}... at ${peerIp}`
+      );
+    } catch (error) {
+      console.error(`❌ [KEY ROTATION] Failed to offer key v${keyId} to ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Keep a peer's event key in step with ours, judging by the key its message was
+   * sealed with: follow a peer that has switched to a newer key we hold, and offer
+   * our keys to a peer that is behind
+   */
+  private async reconcileEventKey(
+    sealedWithKeyId: number | null,
+    peerDeviceId: string,
+    peerIp: string
+  ) {
+    if (this.currentKeyId === null) return;
+
+    if (
+      sealedWithKeyId !== null &&
+      sealedWithKeyId > this.currentKeyId &&
+      this.eventSecrets[sealedWithKeyId] !== undefined
+    ) {
+      console.log(
+        `🔑 [KEY ROTATION] ${peerDeviceId.substring(0, 8)}... switched to key v${sealedWithKeyId}, following`
+      );
+      await this.setEventSecret(this.eventSecrets[sealedWithKeyId], sealedWithKeyId);
+    } else if (sealedWithKeyId !== null && sealedWithKeyId < this.currentKeyId) {
+      await this.offerEventKey(peerDeviceId, peerIp, this.currentKeyId, sealedWithKeyId);
+    } else if (this.keyRotation && !this.keyRotation.holders.has(peerDeviceId)) {
+      await this.offerEventKey(peerDeviceId, peerIp, this.keyRotation.keyId);
+    }
+  }
+
+  /**
+   * A peer acknowledged an event key we offered
+   */
+  private async recordKeyHolder(peerDeviceId: string, keyId: number) {
+    this.keyOfferedAt.delete(peerDeviceId);
+    if (!this.keyRotation || this.keyRotation.keyId !== keyId) return;
+
+    this.keyRotation.holders.add(peerDeviceId);
+    await this.saveKeyRotation();
+    console.log(
+      `🔑 [KEY ROTATION] ${peerDeviceId.substring(0, 8)}... holds key v${keyId} (${this.keyRotation.holders.size} peers)`
+    );
+    await this.completeKeyRotationIfReady();
+  }
+
+  private async saveKeyRotation() {
+    const saved = this.keyRotation && {
+      keyId: this.keyRotation.keyId,
+      holders: Array.from(this.keyRotation.holders),
+    };
+    await this.storage.saveSetting('key_rotation', saved ? JSON.stringify(saved) : '');
+  }
+
+  /**
+   * Get the current event enrollment (null if this device isn't paired)
+   */
+  getEnrollment(): EventEnrollment | null {
+    if (!this.enrolledEventId || this.currentKeyId === null) return null;
+
+    return {
+      eventId: this.enrolledEventId,
+      key: this.eventSecrets[this.currentKeyId],
+      configVersion: this.currentKeyId,
+    };
+  }
+
+  /**
+   * Whether this device created the event it is enrolled in
+   */
+  isEnrollmentAdmin(): boolean {
+    return this.isEventAdmin;
+  }
+
+  /**
+   * Load the clock skew warning threshold from settings
+   */
+  private async loadClockSkewThreshold() {
+    const saved = await this.storage.getSetting('clock_skew_threshold');
+    if (saved) {
+      this.clockSkewThresholdSeconds = Number(saved);
+    }
+  }
+
+  /**
+   * Get the clock skew warning threshold (seconds)
+   */
+  getClockSkewThreshold(): number {
+    return this.clockSkewThresholdSeconds;
+  }
+
+  /**
+   * Set the clock skew warning threshold (seconds, persisted)
+   */
+  async setClockSkewThreshold(seconds: number) {
+    this.clockSkewThresholdSeconds = seconds;
+    await this.storage.saveSetting('clock_skew_threshold', String(seconds));
+  }
+
+  /**
+   * Connected peers whose clock is further off ours than the threshold
+   */
+  getSkewedPeers(): DeviceInfo[] {
+    const now = this.clock.now();
+    return Array.from(this.knownDevices.values()).filter(
+      (device) =>
+        now - device.lastSeen < this.config.peerTimeoutMs &&
+        device.clockOffset !== undefined &&
+        Math.abs(device.clockOffset) > this.clockSkewThresholdSeconds * 1000
+    );
+  }
+
+  /**
+   * Update a peer's clock offset and round-trip estimate from its heartbeat
+   */
+  private updateClockEstimate(
+    device: DeviceInfo,
+    echo: HeartbeatEcho,
+    sentAt: number,
+    receivedAt: number
+  ) {
+    const previous =
+      device.clockOffset !== undefined && device.roundTripTime !== undefined
+        ? { clockOffset: device.clockOffset, roundTripTime: device.roundTripTime }
+        : null;
+    const estimate = smoothClock(previous, sampleClock(echo, sentAt, receivedAt));
+
+    device.clockOffset = estimate.clockOffset;
+    device.roundTripTime = estimate.roundTripTime;
+
+    const thresholdMs = this.clockSkewThresholdSeconds * 1000;
+    const wasSkewed = previous !== null && Math.abs(previous.clockOffset) > thresholdMs;
+    const isSkewed = Math.abs(estimate.clockOffset) > thresholdMs;
+
+    console.log(
+      `🕐 [CLOCK] ${device.deviceId.substring(0, 8)}... offset ${Math.round(estimate.clockOffset)}ms, RTT ${Math.round(estimate.roundTripTime)}ms`
+    );
+
+    if (isSkewed && !wasSkewed) {
+      console.warn(
+        `⚠️  [CLOCK] Device ${device.deviceId.substring(0, 8)}... clock is ${Math.round(estimate.clockOffset / 1000)}s off ours`
+      );
+      serviceEvents.emit('clock-skew', device);
+    }
+  }
+
+  /**
+   * Get number of messages dropped because they failed authentication
+   */
+  getRejectedMessagesCount(): number {
+    return this.rejectedMessageCount;
+  }
+
+  /**
+   * Load strict mode settings
+   */
+  private async loadStrictMode() {
+    const saved = await this.storage.getSetting('strict_mode');
+    if (saved) {
+      this.strictMode = { ...this.strictMode, ...JSON.parse(saved) };
+    }
+  }
+
+  /**
+   * Get strict mode settings
+   */
+  getStrictModeConfig(): StrictModeConfig {
+    return { ...this.strictMode };
+  }
+
+  /**
+   * Update strict mode settings (persisted)
+   */
+  async setStrictModeConfig(config: Partial<StrictModeConfig>) {
+    this.strictMode = { ...this.strictMode, ...config };
+    await this.storage.saveSetting('strict_mode', JSON.stringify(this.strictMode));
+    console.log(
+      `🔒 [STRICT] Strict mode ${this.strictMode.enabled ? 'enabled' : 'disabled'} (timeout ${this.strictMode.timeoutMs}ms, partition policy: ${this.strictMode.partitionPolicy})`
+    );
+  }
+
+  /**
+   * Ask reachable peers to let us accept a one-use pass (strict mode).
+   *
+   * Each reachable peer votes once; we count as a vote in favour. The claim is granted
+   * when a majority of us plus the reachable peers agrees. Fallback policy:
+   * - no peer reachable: granted (we can't be racing anyone we can see; conflicts are
+   *   still detected when the scans merge later)
+   * - peers reachable but no majority answers within the timeout (partition or loss):
+   *   the configured partition policy decides
+   * - a majority votes against: rejected
+   */
+  async claimPass(qrCode: string, date: string): Promise<PassClaimResult> {
+    const peers = this.getConnectedPeers();
+
+    if (peers.length === 0) {
+      console.log(`🔒 [STRICT] No peers reachable, accepting ${qrCode} without quorum`);
+      return { granted: true, grants: 1, quorum: 1 };
+    }
+
+    const key = bucketKey(qrCode, date);
+    const clusterSize = peers.length + 1;
+    const quorum = Math.floor(clusterSize / 2) + 1;
+    const votes: Map<string, boolean> = new Map();
+    const claimMessageIds: string[] = [];
+
+    this.localClaims.add(key);
+    console.log(
+      `🔒 [STRICT] Claiming ${qrCode} on ${date} from ${peers.length} peers (quorum ${quorum}/${clusterSize})`
+    );
+
+    const countGrants = () => 1 + Array.from(votes.values()).filter(Boolean).length;
+    const countDenials = () => Array.from(votes.values()).filter((granted) => !granted).length;
+
+    const sendClaim = async (peer: { deviceId: string; ipAddress: string }) => {
+      this.nextSequenceNumber();
+      const messageId = uuidv4();
+      claimMessageIds.push(messageId);
+      this.pendingClaimVotes.set(messageId, recordVote);
+
+      const message: StateMessage = {
+        type: 'claim',
+        messageId,
+        claim: { qrCode, date },
+        sequenceNum: this.sequenceNumber,
+        deviceId: this.deviceId,
+        timestamp: this.clock.now(),
+      };
+
+      try {
+        await this.sendToPeer(this.encodeForPeer(message, peer.ipAddress), peer.ipAddress);
+      } catch (error) {
+        console.error(`❌ [STRICT] Failed to send claim to ${peer.ipAddress}:`, error);
+      }
+    };
+
+    let settle: () => void = () => {};
+    const decided = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
+
+    function recordVote(peerId: string, granted: boolean) {
+      if (votes.has(peerId) || !peers.some((peer) => peer.deviceId === peerId)) return;
+      votes.set(peerId, granted);
+
+      // Stop waiting once the outcome can't change
+      if (countGrants() >= quorum || clusterSize - countDenials() < quorum) {
+        settle();
+      }
+    }
+
+    // Resend once halfway through to peers that haven't voted (datagrams get lost)
+    const resendTimer = this.clock.setTimeout(() => {
+      peers.filter((peer) => !votes.has(peer.deviceId)).forEach((peer) => sendClaim(peer));
+    }, this.strictMode.timeoutMs / 2);
+    const timeoutTimer = this.clock.setTimeout(settle, this.strictMode.timeoutMs);
+
+    await Promise.all(peers.map((peer) => sendClaim(peer)));
+    await decided;
+
+    this.clock.clearTimeout(resendTimer);
+    this.clock.clearTimeout(timeoutTimer);
+    claimMessageIds.forEach((messageId) => this.pendingClaimVotes.delete(messageId));
+    this.localClaims.delete(key);
+
+    const grants = countGrants();
+    const denials = countDenials();
+    console.log(
+      `🔒 [STRICT] Claim for ${qrCode}: ${grants} for, ${denials} against, ${clusterSize - votes.size - 1} no answer`
+    );
+
+    if (grants >= quorum) {
+      // Keep blocking competing claims until our scan has replicated
+      this.grantedClaims.set(key, {
+        deviceId: this.deviceId,
+        expiresAt: this.clock.now() + CLAIM_HOLD_MS,
+      });
+      return { granted: true, grants, quorum };
+    }
+
+    if (clusterSize - denials < quorum) {
+      return { granted: false, reason: 'Pass already claimed on another scanner', grants, quorum };
+    }
+
+    // Not enough answers: treat as a partition
+    if (this.strictMode.partitionPolicy === 'accept') {
+      console.warn(`⚠️  [STRICT] No quorum for ${qrCode}, accepting per partition policy`);
+      this.grantedClaims.set(key, {
+        deviceId: this.deviceId,
+        expiresAt: this.clock.now() + CLAIM_HOLD_MS,
+      });
+      return { granted: true, grants, quorum };
+    }
+
+    console.warn(`⚠️  [STRICT] No quorum for ${qrCode}, rejecting per partition policy`);
+    return {
+      granted: false,
+      reason: 'Not enough scanners reachable to confirm this pass',
+      grants,
+      quorum,
+    };
+  }
+
+  /**
+   * Vote on a peer's claim for a one-use pass
+   */
+  private voteOnClaim(qrCode: string, date: string, claimantId: string): boolean {
+    const key = bucketKey(qrCode, date);
+
+    // Already used on that date as far as we know
+    if (getActiveScans(this.localState[qrCode]).some((scan) => scan.date === date)) {
+      return false;
+    }
+
+    // Someone else holds the claim
+    const granted = this.grantedClaims.get(key);
+    if (granted && granted.deviceId !== claimantId && granted.expiresAt > this.clock.now()) {
+      return false;
+    }
+
+    // We are claiming the same pass right now: the lower device ID wins the tie
+    if (this.localClaims.has(key) && this.deviceId < claimantId) {
+      return false;
+    }
+
+    this.grantedClaims.set(key, {
+      deviceId: claimantId,
+      expiresAt: this.clock.now() + CLAIM_HOLD_MS,
+    });
+    return true;
+  }
+
+  /**
+   * Send ACK for a received message (with our vote when acknowledging a claim)
+   */
+  private async sendAck(
+    messageId: string,
+    peerIp: string,
+    peerDeviceId: string,
+    claimGranted?: boolean
+  ) {
+    this.nextSequenceNumber();
+
+    const ackMessage: StateMessage = {
+      type: 'ack',
+      ackMessageId: messageId,
+      claimGranted,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    try {
+      await this.sendToPeer(this.encodeForPeer(ackMessage, peerIp), peerIp);
+      console.log(
+        `✅ [ACK] Sent ACK for message ${messageId.substring(0, 8)}... to peer ${peerDeviceId.substring(0, 8)}...`
+      );
+    } catch (error) {
+      console.error(`❌ [ACK] Failed to send ACK to ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Start the engine: load state, start the transport and the sync timers
+   * Optimized for 4-5 devices with reliability features
+   */
+  async start() {
+    if (this.running) {
+      console.warn('⚠️  [INIT] Sync engine already started');
+      return;
+    }
+
+    try {
+      console.log('🚀 [INIT] ========================================');
+      console.log('🚀 [INIT] Initializing P2P service...');
+      console.log('🚀 [INIT] ========================================');
+
+      // 1. Initialize SQLite database
+      await this.storage.init();
+      console.log('✅ [INIT] SQLite database initialized');
+
+      // 2. Get or create persistent device ID
+      this.deviceId = await this.storage.getOrCreateDeviceId(uuidv4);
+      console.log(`✅ [INIT] Device ID: ${this.deviceId}`);
+      console.log(`   [INIT] Short ID: ${this.deviceId.substring(0, 8)}...`);
+      console.log(`   [INIT] Device identity will persist across app restarts`);
+
+      // Resume the message sequence so peers never see it go back after a restart
+      await this.restoreSequenceNumber();
+      console.log(`✅ [INIT] Message sequence resumed at ${this.sequenceNumber}`);
+
+      // Resume our scan sequence so version vectors stay contiguous across restarts
+      this.scanSequence = await this.storage.getHighestOriginSeq(this.deviceId);
+      console.log(`✅ [INIT] Scan sequence resumed at ${this.scanSequence}`);
+
+      // Never let the clock go behind scans we've already stamped or merged
+      this.hlcClock = (await this.storage.getLatestScanHlc()) ?? ZERO_HLC;
+
+      // Load pass definitions changed during the event
+      (await this.storage.getAllPassDefinitions()).forEach((definition) => {
+        this.passDefinitions[definition.qrCode] = definition;
+      });
+
+      // Load pass revocations
+      (await this.storage.getAllRevocations()).forEach((revocation) => {
+        this.revocations[revocation.qrCode] = revocation;
+      });
+
+      // Load previously detected double entries so staff still see them after a restart
+      const savedConflicts = await this.storage.getAllConflicts();
+      savedConflicts.forEach((conflict) =>
+        this.conflicts.set(conflictKey(conflict.qrCode, conflict.date), conflict)
+      );
+      if (savedConflicts.length > 0) {
+        console.warn(`⚠️  [INIT] ${savedConflicts.length} one-use pass conflicts on record`);
+      }
+
+      // Load the event enrollment and keyring for message authentication and encryption
+      await this.loadEnrollment();
+      await this.loadEventKeys();
+      await this.loadStrictMode();
+      await this.loadClockSkewThreshold();
+      if (this.currentKeyId !== null) {
+        console.log(
+          `🔐 [INIT] Event key ${this.currentKeyId} loaded, message signing and encryption enabled`
+        );
+      } else {
+        console.warn(
+          '⚠️  [INIT] No event secret configured, messages are NOT authenticated or encrypted'
+        );
+      }
+
+      // 3. Start the transport (UDP socket unless replaced) and listen for peers
+      await this.transport.start();
+      this.unsubscribeTransport?.();
+      this.unsubscribeTransport = this.transport.onMessage((data, rinfo) =>
+        this.handleIncomingMessage(data, rinfo)
+      );
+      this.unsubscribeNetworkChange?.();
+      this.unsubscribeNetworkChange =
+        this.transport.onNetworkChange?.((address) => this.handleNetworkChange(address)) ?? null;
+      console.log(
+        `✅ [INIT] Transport started, local address: ${this.transport.getLocalAddress() ?? 'unknown'}`
+      );
+
+      // 4. Load or rebuild JSON config (populates qrCodes)
+      await this.loadAndSaveJSONConfig();
+
+      // 5. Initialize pass types in database
+      await this.initializePassTypes();
+      console.log('✅ [INIT] Pass types initialized');
+
+      // 6. Load state from database (CRDT scan events and tombstones)
+      this.localState = await this.storage.loadState(this.qrCodes);
+      this.invalidateMerkleTree();
+      const totalScans = Object.values(this.localState).reduce(
+        (sum, pass) => sum + pass.scans.length,
+        0
+      );
+      console.log(
+        `✅ [INIT] State loaded from database: ${Object.keys(this.localState).length} QR codes, ${totalScans} total scans`
+      );
+
+      // 7. If we have scans or edited passes, the JSON config may be out of sync, rebuild it
+      if (totalScans > 0 || Object.keys(this.passDefinitions).length > 0) {
+        console.log('🔄 [INIT] Rebuilding JSON config from existing scan events...');
+        await this.rebuildJSONConfigFromScans();
+      }
+
+      // 8. Network discovery
+      console.log('📡 [INIT] Network Discovery:');
+      console.log('   - Initial discovery uses broadcast');
+      console.log('   - Subsequent messages use unicast to known peers');
+      console.log(
+        `   - Heartbeat every ${this.config.heartbeatIntervalMs / 1000}s keeps connections alive`
+      );
+
+      // 9. Load known devices from database
+      const devices = await this.storage.getAllDeviceStates();
+      devices.forEach((device) => this.knownDevices.set(device.deviceId, device));
+
+      // Load which peers have received our scans (replication status)
+      (await this.storage.getAllScanDeliveries()).forEach(({ scanId, peerDeviceId }) => {
+        if (!this.scanDeliveries.has(scanId)) this.scanDeliveries.set(scanId, new Set());
+        this.scanDeliveries.get(scanId)!.add(peerDeviceId);
+      });
+
+      // Resume retrying messages that weren't acknowledged before the app was closed
+      const savedAcks = await this.storage.getAllPendingAcks();
+      savedAcks.forEach((pending) =>
+        this.pendingAcks.set(`${pending.messageId}-${pending.peerDeviceId}`, pending)
+      );
+      if (savedAcks.length > 0) {
+        console.log(
+          `✅ [INIT] Resuming ACK tracking for ${savedAcks.length} unacknowledged messages`
+        );
+      }
+
+      // 10. Request full state from peers (in case this is a new/recovering device)
+      await this.requestFullStateFromPeers().catch((err) => {
+        console.warn('Failed to request full state from peers (this is okay):', err);
+      });
+
+      // 11. Start the sync timers
+      this.running = true;
+      this.startPeriodicSync();
+
+      // 12. Start broadcast queue processor
+      this.startBroadcastQueueProcessor();
+
+      // 13. Start heartbeat mechanism
+      this.startHeartbeat();
+
+      // 14. Start ACK retry processor
+      this.startAckRetryProcessor();
+
+      // 15. Start state reconciliation
+      this.startStateReconciliation();
+
+      console.log('🎉 [INIT] P2P service initialized successfully with reliability features');
+      console.log(`   [INIT] - Heartbeat: Every ${this.config.heartbeatIntervalMs / 1000}s`);
+      console.log(`   [INIT] - Full sync: Every ${this.config.fullSyncIntervalMs / 1000}s`);
+      console.log(`   [INIT] - ACK retry: Every ${this.config.ackRetryIntervalMs / 1000}s`);
+      console.log(
+        `   [INIT] - State reconciliation: Every ${this.config.reconciliationIntervalMs / 1000}s`
+      );
+      console.log(`   [INIT] - Peer timeout: ${this.config.peerTimeoutMs / 1000}s`);
+    } catch (err) {
+      console.error('Error initializing P2P:', err);
+      throw err; // Re-throw so the caller knows initialization failed
+    }
+  }
+
+  /**
+   * Initialize pass types in the database
+   */
+  private async initializePassTypes() {
+    for (const qrCode of this.qrCodes) {
+      await this.storage.savePassType(qrCode, this.getPassType(qrCode));
+    }
+  }
+
+  /**
+   * Load JSON config and save it to database
+   * This ensures the initial state is persisted and can be recovered
+   */
+  private async loadAndSaveJSONConfig() {
+    try {
+      console.log('📋 [JSON CONFIG] Loading JSON configuration...');
+
+      // Try to load from database first (if app was restarted)
+      let savedConfig = await this.storage.loadJSONConfig();
+
+      if (savedConfig) {
+        console.log('✅ [JSON CONFIG] Loaded existing config from database');
+        this.jsonConfigState = savedConfig;
+      } else {
+        // First time - load from initial file
+        // Built fresh rather than copied: a shallow copy would share its entries with the
+        // imported JSON, and scans would then mutate the bundled config itself
+        console.log('🆕 [JSON CONFIG] Loading initial config from qr_config.json');
+        this.jsonConfigState = this.buildBaseConfig();
+
+        // Save to database for persistence
+        await this.storage.saveJSONConfig(this.jsonConfigState);
+        console.log('✅ [JSON CONFIG] Saved initial config to database');
+      }
+
+      // Populate the QR code list from the loaded config and passes added during the event
+      this.qrCodes = [
+        ...new Set([...Object.keys(this.jsonConfigState), ...Object.keys(this.passDefinitions)]),
+      ];
+      console.log(
+        `✅ [JSON CONFIG] Populated QR code list with ${this.qrCodes.length} codes from config`
+      );
+
+      // Log summary
+      const qrCount = Object.keys(this.jsonConfigState).length;
+      const infiniteCount = Object.values(this.jsonConfigState).filter(
+        (entry: any) => entry.type === 'infinite'
+      ).length;
+      const oneUseCount = qrCount - infiniteCount;
+
+      console.log(
+        `📊 [JSON CONFIG] Config loaded: ${qrCount} QR codes (${infiniteCount} infinite, ${oneUseCount} one-use)`
+      );
+    } catch (error) {
+      console.error('❌ [JSON CONFIG] Error loading/saving JSON config:', error);
+      // Fallback to initial config
+      this.jsonConfigState = this.buildBaseConfig();
+      this.qrCodes = Object.keys(this.jsonConfigState);
+    }
+  }
+
+  /**
+   * Update JSON config with scan and persist changes
+   */
+  private async updateJSONConfigWithScan(qrCode: string, date: string) {
+    if (!this.jsonConfigState[qrCode]) {
+      console.warn(`⚠️  [JSON CONFIG] QR code ${qrCode} not found in config`);
+      return;
+    }
+
+    const entry = this.jsonConfigState[qrCode];
+
+    // Update the date flag
+    if (entry.hasOwnProperty(date)) {
+      entry[date] = true;
+    }
+
+    // Update count for infinite passes
+    if (entry.type === 'infinite' && entry.hasOwnProperty('count')) {
+      entry.count = (entry.count || 0) + 1;
+    }
+
+    // Persist to database
+    await this.storage.saveJSONConfig(this.jsonConfigState);
+
+    console.log(
+      `✅ [JSON CONFIG] Updated ${qrCode}: ${date} = true${entry.type === 'infinite' ? `, count = ${entry.count}` : ''}`
+    );
+  }
+
+  /**
+   * Rebuild JSON config from CRDT scan events
+   * This is used when recovering state or syncing with peers
+   */
+  private async rebuildJSONConfigFromScans() {
+    console.log('🔄 [JSON CONFIG] Rebuilding JSON config from scan events...');
+
+    // Start with a fresh config built from the current pass definitions (entries are mutated below)
+    const rebuiltConfig = this.buildBaseConfig();
+
+    // Process all scans to update the config
+    for (const qrCode in this.localState) {
+      if (!rebuiltConfig[qrCode]) {
+        console.warn(`⚠️  [JSON CONFIG] QR code ${qrCode} has no pass definition, skipping`);
+        continue;
+      }
+
+      const entry = rebuiltConfig[qrCode];
+      const scans = getActiveScans(this.localState[qrCode]);
+
+      // Reset counts
+      if (entry.type === 'infinite') {
+        entry.count = 0;
+      }
+
+      // Process each scan
+      for (const scan of scans) {
+        // Set date flag
+        if (entry.hasOwnProperty(scan.date)) {
+          entry[scan.date] = true;
+        }
+
+        // Increment count for infinite passes
+        if (entry.type === 'infinite' && entry.hasOwnProperty('count')) {
+          entry.count = (entry.count || 0) + 1;
+        }
+      }
+    }
+
+    // Update the engine state
+    this.jsonConfigState = rebuiltConfig;
+    this.qrCodes = Object.keys(rebuiltConfig);
+
+    // Persist to database
+    await this.storage.saveJSONConfig(this.jsonConfigState);
+
+    console.log('✅ [JSON CONFIG] Rebuilt and saved JSON config from scan events');
+  }
+
+  /**
+   * Empty JSON config (no scans) for the current pass definitions
+   */
+  private buildBaseConfig(): any {
+    const config: any = {};
+
+    for (const definition of this.getPassDefinitions()) {
+      const entry: any = { type: definition.type };
+      definition.allowedDates.forEach((date) => {
+        entry[date] = false;
+      });
+      if (definition.type === 'infinite') {
+        entry.count = 0;
+      }
+      config[definition.qrCode] = entry;
+    }
+
+    return config;
+  }
+
+  /**
+   * Get the JSON config state (for UI display)
+   */
+  getJSONConfigState(): any {
+    return this.jsonConfigState;
+  }
+
+  /**
+   * Get the current device ID
+   */
+  getDeviceId(): string {
+    return this.deviceId;
+  }
+
+  /**
+   * Get the current local state
+   */
+  getLocalState(): LocalState {
+    return this.localState;
+  }
+
+  /**
+   * Merge incoming pass revocations (last writer wins per QR code).
+   *
+   * Any member of the event can send one: only the admin's app offers the change,
+   * but device IDs are whatever the sender says they are, so checking the author
+   * against the admin's ID would stop nothing that a member holding the event key
+   * couldn't forge. The event key is what we trust.
+   */
+  private async mergeRevocations(incoming: PassRevocation[]) {
+    for (const revocation of incoming) {
+      if (!lwwWins(revocation, this.revocations[revocation.qrCode])) continue;
+
+      this.revocations[revocation.qrCode] = revocation;
+      await this.storage.saveRevocation(revocation);
+      console.log(
+        `🚫 [REVOCATION] ${revocation.qrCode} ${revocation.revoked ? `revoked${revocation.reason ? ` (${revocation.reason})` : ''}` : 'restored'} by ${revocation.deviceId.substring(0, 8)}...`
+      );
+    }
+  }
+
+  /**
+   * Set whether a pass is revoked (admin only) and replicate it to every device
+   */
+  private async setPassRevoked(
+    qrCode: string,
+    revoked: boolean,
+    reason?: string
+  ): Promise<PassRevocation> {
+    if (!this.isEventAdmin) {
+      throw new Error('Only the event admin can revoke or restore passes');
+    }
+
+    const revocation: PassRevocation = {
+      qrCode,
+      revoked,
+      reason: revoked ? reason : undefined,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+      hlc: this.nextHlc(),
+    };
+
+    await this.mergeRevocations([revocation]);
+    await this.broadcastDelta([], { revocations: [revocation] });
+    return revocation;
+  }
+
+  /**
+   * Revoke a pass (e.g. stolen or refunded) on every device
+   */
+  async revokePass(qrCode: string, reason?: string): Promise<PassRevocation> {
+    return this.setPassRevoked(qrCode, true, reason);
+  }
+
+  /**
+   * Restore a revoked pass on every device
+   */
+  async restorePass(qrCode: string): Promise<PassRevocation> {
+    return this.setPassRevoked(qrCode, false);
+  }
+
+  /**
+   * Get the revocation of a pass, if it is currently revoked
+   */
+  getRevocation(qrCode: string): PassRevocation | undefined {
+    const revocation = this.revocations[qrCode];
+    return revocation?.revoked ? revocation : undefined;
+  }
+
+  /**
+   * Get all currently revoked passes
+   */
+  getRevokedPasses(): PassRevocation[] {
+    return Object.values(this.revocations).filter((revocation) => revocation.revoked);
+  }
+
+  /**
+   * Definition of a pass from qr_config.json (the baseline every device starts from)
+   */
+  private baselineDefinition(qrCode: string): PassDefinition | undefined {
+    const entry = this.config.initialPasses[qrCode];
+    if (!entry) return undefined;
+
+    return {
+      qrCode,
+      type: entry.type,
+      allowedDates: Object.keys(entry).filter((key) => key !== 'type' && key !== 'count'),
+      deviceId: '',
+      timestamp: 0,
+      hlc: ZERO_HLC,
+    };
+  }
+
+  /**
+   * Get the current definition of a pass (undefined for unknown codes)
+   */
+  getPassDefinition(qrCode: string): PassDefinition | undefined {
+    return this.passDefinitions[qrCode] ?? this.baselineDefinition(qrCode);
+  }
+
+  /**
+   * Get the current definitions of all passes
+   */
+  getPassDefinitions(): PassDefinition[] {
+    const qrCodes = new Set([
+      ...Object.keys(this.config.initialPasses),
+      ...Object.keys(this.passDefinitions),
+    ]);
+    return [...qrCodes].map((qrCode) => this.getPassDefinition(qrCode)!);
+  }
+
+  /**
+   * Get the type of a pass
+   */
+  getPassType(qrCode: string): 'infinite' | 'one-use' {
+    return this.getPassDefinition(qrCode)?.type ?? (qrCode.includes('I') ? 'infinite' : 'one-use');
+  }
+
+  /**
+   * Merge incoming pass definitions (last writer wins per QR code). Like revocations,
+   * taken from any member of the event (see mergeRevocations)
+   */
+  private async mergePassDefinitions(incoming: PassDefinition[]) {
+    let changed = false;
+
+    for (const definition of incoming) {
+      if (!lwwWins(definition, this.passDefinitions[definition.qrCode])) continue;
+
+      this.passDefinitions[definition.qrCode] = definition;
+      await this.storage.savePassDefinition(definition);
+      await this.storage.savePassType(definition.qrCode, definition.type);
+
+      if (this.localState[definition.qrCode]) {
+        this.localState[definition.qrCode].type = definition.type;
+      } else {
+        this.localState[definition.qrCode] = { type: definition.type, scans: [] };
+      }
+      changed = true;
+      console.log(
+        `🎫 [PASS DEFINITION] ${definition.qrCode} set to ${definition.type} (${definition.allowedDates.join(', ') || 'no dates'}) by ${definition.deviceId.substring(0, 8)}...`
+      );
+    }
+
+    if (changed) {
+      await this.rebuildJSONConfigFromScans();
+    }
+  }
+
+  /**
+   * Add or edit a pass (admin only) and replicate it to every device
+   */
+  async savePassDefinition(
+    changes: Pick<PassDefinition, 'qrCode' | 'type' | 'allowedDates' | 'metadata'>
+  ): Promise<PassDefinition> {
+    if (!this.isEventAdmin) {
+      throw new Error('Only the event admin can add or edit passes');
+    }
+
+    const qrCode = changes.qrCode.trim();
+    if (!qrCode) {
+      throw new Error('QR code is required');
+    }
+
+    const definition: PassDefinition = {
+      qrCode,
+      type: changes.type,
+      allowedDates: changes.allowedDates,
+      metadata:
+        changes.metadata && Object.keys(changes.metadata).length > 0 ? changes.metadata : undefined,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+      hlc: this.nextHlc(),
+    };
+
+    await this.mergePassDefinitions([definition]);
+    await this.broadcastDelta([], { passDefinitions: [definition] });
+    return definition;
+  }
+
+  /**
+   * Get entry for a specific QR code
+   */
+  getEntry(key: string): PassState | undefined {
+    return this.localState[key];
+  }
+
+  /**
+   * Get the scans of a QR code on a date from storage (voided scans excluded)
+   */
+  async getScansForQROnDate(qrCode: string, date: string): Promise<ScanEvent[]> {
+    return await this.storage.getScansForQROnDate(qrCode, date);
+  }
+
+  /**
+   * Add a new scan event to the local state without checking the pass rules
+   * (tests and tools; the app records scans through the scanner)
+   */
+  async addScanEvent(qrCode: string, date: string): Promise<ScanEvent> {
+    return (await this.recordScanEvent(qrCode, date, () => true))!;
+  }
+
+  /**
+   * Add a scan only if isAllowed approves the QR code's scans on that date, checked
+   * in the same storage transaction that saves it (so two quick reads of a one-use
+   * pass can't both get in). Returns null when the scan was refused.
+   */
+  async recordScanEvent(
+    qrCode: string,
+    date: string,
+    isAllowed: (todayScans: ScanEvent[]) => boolean
+  ): Promise<ScanEvent | null> {
+    const event = await this.saveLocalScan(() =>
+      this.storage.recordScan(qrCode, date, (todayScans) =>
+        isAllowed(todayScans) ? this.createScanEvent(qrCode, date) : null
+      )
+    );
+    if (!event) {
+      console.log(`🚫 [LOCAL SCAN] Refused ${qrCode} on re-validation`);
+      return null;
+    }
+    console.log('✅ [LOCAL SCAN] Saved to SQLite database');
+
+    this.addLocalScan(event);
+
+    // Update JSON config state
+    await this.updateJSONConfigWithScan(qrCode, date);
+
+    // Broadcast to peers
+    await this.broadcastDelta([event]);
+
+    return event;
+  }
+
+  /**
+   * Run a local scan write after the ones before it, and move the scan sequence
+   * on to the saved scan's number only if the write succeeded
+   */
+  private saveLocalScan<T extends ScanEvent | null>(write: () => Promise<T>): Promise<T> {
+    const saved = this.scanWrites.then(write).then((event) => {
+      if (event?.seq !== undefined) this.scanSequence = event.seq;
+      return event;
+    });
+    this.scanWrites = saved.catch(() => undefined);
+    return saved;
+  }
+
+  /**
+   * Create a scan event of this device (takes the next scan sequence)
+   */
+  private createScanEvent(qrCode: string, date: string): ScanEvent {
+    const event: ScanEvent = {
+      scanId: uuidv4(),
+      qrCode,
+      timestamp: this.clock.now(),
+      deviceId: this.deviceId,
+      date,
+      seq: this.scanSequence + 1, // Taken by saveLocalScan once the scan is saved
+      hlc: this.nextHlc(),
+    };
+
+    console.log('📱 [LOCAL SCAN] Creating new scan event:', {
+      scanId: event.scanId.substring(0, 8) + '...',
+      qrCode: event.qrCode,
+      date: event.date,
+      deviceId: this.deviceId.substring(0, 8) + '...',
+    });
+
+    return event;
+  }
+
+  /**
+   * Add a scan of this device to the in-memory state
+   */
+  private addLocalScan(event: ScanEvent) {
+    const { qrCode } = event;
+    if (!this.localState[qrCode]) {
+      const type = this.getPassType(qrCode);
+      this.localState[qrCode] = {
+        type,
+        scans: [],
+      };
+      console.log(`📝 [LOCAL SCAN] Initialized new QR code entry: ${qrCode} (${type})`);
+    }
+
+    this.localState[qrCode].scans.push(event);
+    sortScans(this.localState[qrCode].scans);
+    this.invalidateMerkleTree();
+
+    console.log(
+      `💾 [LOCAL SCAN] Saved to in-memory state. Total scans for ${qrCode}: ${this.localState[qrCode].scans.length}`
+    );
+  }
+
+  /**
+   * Track a message until the peer acknowledges it (persisted so retries survive restarts)
+   */
+  private async trackPendingAck(pending: PendingMessage) {
+    this.pendingAcks.set(`${pending.messageId}-${pending.peerDeviceId}`, pending);
+    await this.storage.savePendingAck(pending);
+  }
+
+  /**
+   * Remember which of our scans a message carries, so its ACKs count as deliveries
+   */
+  private trackScanMessage(messageId: string, scans: ScanEvent[]) {
+    const scanIds = scans
+      .filter((scan) => scan.deviceId === this.deviceId)
+      .map((scan) => scan.scanId);
+    if (scanIds.length === 0) return;
+
+    this.messageScans.set(messageId, scanIds);
+
+    // Keep map size manageable (unacknowledged messages are given up on long before this)
+    if (this.messageScans.size > MAX_TRACKED_MESSAGES) {
+      const oldest = this.messageScans.keys().next().value;
+      if (oldest) this.messageScans.delete(oldest);
+    }
+  }
+
+  /**
+   * Record that a peer has received some of our scans
+   */
+  private async markScansDelivered(scanIds: string[], peerDeviceId: string) {
+    const newlyDelivered = scanIds.filter(
+      (scanId) => !this.scanDeliveries.get(scanId)?.has(peerDeviceId)
+    );
+    if (newlyDelivered.length === 0) return;
+
+    for (const scanId of newlyDelivered) {
+      if (!this.scanDeliveries.has(scanId)) this.scanDeliveries.set(scanId, new Set());
+      this.scanDeliveries.get(scanId)!.add(peerDeviceId);
+    }
+    await this.storage.saveScanDeliveries(newlyDelivered, peerDeviceId);
+    console.log(
+      `📬 [DELIVERY] ${newlyDelivered.length} scans delivered to ${peerDeviceId.substring(0, 8)}...`
+    );
+  }
+
+  /**
+   * Scans recorded on this device
+   */
+  private getOwnScans(): ScanEvent[] {
+    return Object.values(this.localState).flatMap((pass) =>
+      pass.scans.filter((scan) => scan.deviceId === this.deviceId)
+    );
+  }
+
+  /**
+   * Replication status of one of our scans against the peers that should have it
+   */
+  private toReplicationStatus(scan: ScanEvent, reachablePeers: Set<string>): ScanReplicationStatus {
+    const deliveredTo = this.scanDeliveries.get(scan.scanId) ?? new Set<string>();
+    const peerCount = new Set([...reachablePeers, ...deliveredTo]).size;
+
+    return {
+      scanId: scan.scanId,
+      qrCode: scan.qrCode,
+      date: scan.date,
+      timestamp: scan.timestamp,
+      deliveredTo: deliveredTo.size,
+      peerCount,
+      state:
+        deliveredTo.size === 0
+          ? 'pending'
+          : deliveredTo.size >= peerCount
+            ? 'replicated'
+            : 'partial',
+    };
+  }
+
+  /**
+   * Get how far one of our scans has replicated (undefined if it isn't ours)
+   */
+  getScanReplicationStatus(scanId: string): ScanReplicationStatus | undefined {
+    const scan = this.getOwnScans().find((ownScan) => ownScan.scanId === scanId);
+    if (!scan) return undefined;
+
+    const reachablePeers = new Set(this.getConnectedPeers().map((peer) => peer.deviceId));
+    return this.toReplicationStatus(scan, reachablePeers);
+  }
+
+  /**
+   * Get the replication status of our most recent scans (newest first)
+   */
+  getRecentScanReplication(limit: number = 10): ScanReplicationStatus[] {
+    const reachablePeers = new Set(this.getConnectedPeers().map((peer) => peer.deviceId));
+
+    return this.getOwnScans()
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit)
+      .map((scan) => this.toReplicationStatus(scan, reachablePeers));
+  }
+
+  /**
+   * Broadcast delta changes to all peers (using unicast with ACK tracking)
+   */
+  private async broadcastDelta(deltas: ScanEvent[], extras: DeltaExtras = {}) {
+    this.nextSequenceNumber();
+    const messageId = uuidv4(); // Unique ID for ACK tracking
+    this.trackScanMessage(messageId, deltas);
+
+    const message: StateMessage = {
+      type: 'delta',
+      messageId,
+      deltas,
+      ...extras,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    console.log('📤 [SENDING DELTA] Preparing to send delta:', {
+      type: message.type,
+      messageId: messageId.substring(0, 8) + '...',
+      deltasCount: deltas.length,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId.substring(0, 8) + '...',
+      knownPeers: this.knownDevices.size,
+    });
+
+    deltas.forEach((delta, index) => {
+      console.log(
+        `  📋 [DELTA ${index + 1}] QR: ${delta.qrCode}, ScanId: ${delta.scanId.substring(0, 8)}..., Date: ${delta.date}`
+      );
+    });
+
+    // Send to each known peer individually (unicast) and track for ACK
+    await this.sendToAllPeersWithAck(message, messageId);
+    console.log(
+      `✅ [SENDING DELTA] Sent delta with ${deltas.length} scans to ${this.knownDevices.size} peers`
+    );
+  }
+
+  /**
+   * Send to all peers with ACK tracking
+   */
+  private async sendToAllPeersWithAck(message: StateMessage, messageId: string) {
+    const peers = Array.from(this.knownDevices.values()).filter((p) => p.ipAddress);
+
+    if (peers.length === 0) {
+      // No known peers yet, use broadcast for discovery (no ACK tracking for broadcast)
+      console.log('🔍 [SEND WITH ACK] No known peers, using broadcast for discovery');
+      const messageStr = this.encodeForBroadcast(message);
+      try {
+        await this.broadcast(messageStr);
+        console.log('✅ [SEND WITH ACK] Broadcast sent successfully');
+      } catch (error) {
+        console.error('❌ [SEND WITH ACK] Failed to send broadcast:', error);
+        await this.storage.enqueueBroadcast(messageStr);
+      }
+      return;
+    }
+
+    // Send to each peer and track for ACK
+    for (const peer of peers) {
+      try {
+        const encoded = this.encodeForPeer(message, peer.ipAddress!);
+        console.log(
+          `📦 [SEND WITH ACK] Message size for ${peer.ipAddress}: ${encoded.length} bytes`
+        );
+        await this.sendToPeer(encoded, peer.ipAddress!);
+
+        // Track this message for ACK
+        await this.trackPendingAck({
+          messageId,
+          message: encoded,
+          peerIpAddress: peer.ipAddress!,
+          timestamp: this.clock.now(),
+          attempts: 1,
+          peerDeviceId: peer.deviceId,
+        });
+
+        console.log(
+          `✅ [SEND WITH ACK] Sent to ${peer.ipAddress}, tracking ACK: ${messageId.substring(0, 16)}...`
+        );
+      } catch (error) {
+        console.error(`❌ [SEND WITH ACK] Failed to send to ${peer.ipAddress}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Handle an incoming message from a peer (registered with the transport)
+   */
+  private async handleIncomingMessage(data: Uint8Array, rinfo: RemoteInfo) {
+    const receivedAt = this.clock.now();
+    try {
+      console.log(
+        `📥 [RECEIVED] Message from ${rinfo?.address}:${rinfo?.port}, size: ${data.length} bytes`
+      );
+
+      // Decrypt with any key in the ring (the key id travels in the clear)
+      const sealedWithKeyId = data[0] === ENCRYPTION_MAGIC && data.length > 1 ? data[1] : null;
+      let payload = data;
+      if (this.encryptionKeys.size > 0 || data[0] === ENCRYPTION_MAGIC) {
+        const decrypted = decryptPayload(this.encryptionKeys, data);
+        if (!decrypted) {
+          this.rejectedMessageCount++;
+          console.warn(
+            `🚫 [AUTH] Dropping message from ${rinfo?.address} that could not be decrypted (${this.rejectedMessageCount} rejected so far)`
+          );
+          return;
+        }
+        payload = decrypted;
+      }
+
+      // Verify the event signature before looking at the message at all
+      if (this.authKeys.size > 0) {
+        const verified = this.openPayload(payload);
+        if (!verified) {
+          this.rejectedMessageCount++;
+          console.warn(
+            `🚫 [AUTH] Dropping unauthenticated message from ${rinfo?.address} (${this.rejectedMessageCount} rejected so far)`
+          );
+          return;
+        }
+        payload = verified;
+      } else if (payload[0] === AUTH_MAGIC) {
+        this.rejectedMessageCount++;
+        console.warn(
+          `🚫 [AUTH] Dropping signed message from ${rinfo?.address}: no event secret configured on this device`
+        );
+        return;
+      }
+
+      // Accepts both JSON (protocol v1) and binary (v2) messages during rollout
+      const { message, version } = decodeMessage(payload);
+
+      console.log(
+        `📨 [RECEIVED] Message type: ${message.type}, from device: ${message.deviceId.substring(0, 8)}..., seq: ${message.sequenceNum}`
+      );
+
+      // Ignore messages from ourselves
+      if (message.deviceId === this.deviceId) {
+        console.log('⏭️  [RECEIVED] Ignoring message from self');
+        return;
+      }
+
+      // Once paired, only talk to devices enrolled in the same event
+      if (this.enrolledEventId && message.eventId !== this.enrolledEventId) {
+        this.rejectedMessageCount++;
+        console.warn(
+          `🚫 [PAIRING] Dropping message from ${rinfo?.address}: not enrolled in our event`
+        );
+        return;
+      }
+
+      // A delta we already merged coming again means our ACK was lost: the sender keeps
+      // retrying until it gets one, so acknowledge it again before dropping it
+      if (
+        message.type === 'delta' &&
+        message.messageId &&
+        this.isMessageReceived(message.messageId)
+      ) {
+        console.log(
+          `🔁 [RECEIVED] Resent delta ${message.messageId.substring(0, 8)}..., acknowledging again`
+        );
+        if (rinfo?.address) {
+          await this.sendAck(message.messageId, rinfo.address, message.deviceId);
+        }
+        return;
+      }
+
+      // Replayed and stale messages are dropped; reordered ones are fine (merges are idempotent)
+      const sequenceVerdict = this.checkMessageSequence(message);
+      if (sequenceVerdict === 'restarted') {
+        console.log(
+          `🔁 [SEQUENCE] ${message.deviceId.substring(0, 8)}... restarted (sequence resumed at ${message.sequenceStart})`
+        );
+      } else if (sequenceVerdict === 'reordered') {
+        console.log(
+          `🔀 [SEQUENCE] Message ${message.sequenceNum} from ${message.deviceId.substring(0, 8)}... arrived out of order`
+        );
+      } else if (sequenceVerdict && !isAccepted(sequenceVerdict)) {
+        // Except messages still awaiting our ACK: the sender keeps resending those as they
+        // were first sent, even from before it restarted, until we acknowledge one
+        const awaitingAck =
+          sequenceVerdict === 'stale' &&
+          message.messageId &&
+          !this.isMessageReceived(message.messageId);
+        if (!awaitingAck) {
+          console.warn(
+            `🚫 [SEQUENCE] Dropping ${sequenceVerdict} ${message.type} ${message.sequenceNum} from ${message.deviceId.substring(0, 8)}...`
+          );
+          return;
+        }
+        console.log(
+          `⏳ [SEQUENCE] Accepting late resend ${message.messageId!.substring(0, 8)}... from ${message.deviceId.substring(0, 8)}...`
+        );
+      }
+
+      // Every message moves our clock past the sender's (older peers only send wall time)
+      this.observeHlc(message.hlc ?? { wallTime: message.timestamp, counter: 0 });
+
+      // Check for duplicate messages
+      if (message.messageId && this.isMessageReceived(message.messageId)) {
+        console.log(
+          `⏭️  [RECEIVED] Duplicate message ${message.messageId.substring(0, 8)}..., ignoring`
+        );
+        return;
+      }
+
+      // Mark message as received
+      if (message.messageId) {
+        this.markMessageAsReceived(message.messageId);
+      }
+
+      // Update known devices with IP address for unicast
+      const existingDevice = this.knownDevices.get(message.deviceId);
+      const deviceInfo: DeviceInfo = {
+        deviceId: message.deviceId,
+        lastSequence: this.sequenceWindows.get(message.deviceId)?.highest ?? message.sequenceNum,
+        lastSeen: this.clock.now(),
+        lastHeartbeat:
+          message.type === 'heartbeat' ? this.clock.now() : existingDevice?.lastHeartbeat,
+        ipAddress: rinfo?.address,
+        stateHash: message.stateHash || existingDevice?.stateHash,
+        connectionState: 'connected',
+        protocolVersion: message.protocolVersion || version,
+        clockOffset: existingDevice?.clockOffset,
+        roundTripTime: existingDevice?.roundTripTime,
+      };
+
+      // Check if this is a new peer
+      const isNewPeer = !this.knownDevices.has(message.deviceId);
+
+      this.knownDevices.set(message.deviceId, deviceInfo);
+      await this.storage.updateDeviceState(deviceInfo);
+
+      if (isNewPeer) {
+        console.log(
+          `🆕 NEW PEER DISCOVERED: ${message.deviceId.substring(0, 8)}... at IP: ${rinfo?.address}`
+        );
+        this.printPeerIPs();
+      } else {
+        console.log(
+          `👋 [RECEIVED] Known peer ${message.deviceId.substring(0, 8)}... at ${rinfo?.address}`
+        );
+      }
+
+      if (rinfo?.address) {
+        await this.reconcileEventKey(sealedWithKeyId, message.deviceId, rinfo.address);
+      }
+
+      // Ask a new peer (or the first to answer our broadcast) for what we miss; only one
+      // of several peers heard from at once, since they would all send the same scans
+      if (
+        (isNewPeer || this.awaitingDiscovery) &&
+        rinfo?.address &&
+        this.clock.now() - this.lastStateRequestAt >= STATE_REQUEST_COOLDOWN_MS
+      ) {
+        await this.requestStateFromPeer(message.deviceId, rinfo.address);
+      }
+
+      // Pass definitions and revocations can ride along with deltas and full state
+      if (message.passDefinitions) {
+        await this.mergePassDefinitions(message.passDefinitions);
+      }
+      if (message.revocations) {
+        await this.mergeRevocations(message.revocations);
+      }
+
+      // Handle different message types
+      switch (message.type) {
+        case 'delta':
+          console.log(
+            `🔄 [RECEIVED DELTA] Processing ${message.deltas?.length || 0} scan events, ${message.tombstones?.length || 0} voids`
+          );
+          if (message.deltas || message.tombstones) {
+            message.deltas?.forEach((delta, index) => {
+              console.log(
+                `  📋 [DELTA ${index + 1}] QR: ${delta.qrCode}, ScanId: ${delta.scanId.substring(0, 8)}..., Date: ${delta.date}, From: ${delta.deviceId.substring(0, 8)}...`
+              );
+            });
+            await this.mergeDeltaScans(message.deltas || [], message.tombstones || []);
+          }
+
+          // Send ACK back to sender
+          if (message.messageId && rinfo?.address) {
+            await this.sendAck(message.messageId, rinfo.address, message.deviceId);
+          }
+          break;
+
+        case 'full-state':
+          console.log(`🔄 [RECEIVED FULL-STATE] Processing full state from peer`);
+          if (message.fullState) {
+            const totalScans = Object.values(message.fullState).reduce(
+              (sum, pass) => sum + pass.scans.length,
+              0
+            );
+            console.log(
+              `  📊 [FULL-STATE] Contains ${Object.keys(message.fullState).length} QR codes with ${totalScans} total scans`
+            );
+            await this.mergeFullState(message.fullState);
+          }
+          break;
+
+        case 'state-request':
+          if (message.versionVector) {
+            // The requester's version vector also tells us which of our scans it already holds
+            const heldSeq = message.versionVector[this.deviceId] ?? 0;
+            const heldScans = this.getOwnScans().filter(
+              (scan) => scan.seq !== undefined && scan.seq <= heldSeq
+            );
+            await this.markScansDelivered(
+              heldScans.map((scan) => scan.scanId),
+              message.deviceId
+            );
+          }
+
+          if (message.viaBroadcast) {
+            // Every device hears a broadcast request: instead of all sending the same scans,
+            // make ourselves known and let the requester ask one of us
+            console.log(
+              `📢 [RECEIVED STATE-REQUEST] Broadcast from ${message.deviceId.substring(0, 8)}..., answering with a heartbeat`
+            );
+            if (rinfo?.address) {
+              this.nextSequenceNumber();
+              await this.sendHeartbeat(deviceInfo, this.calculateStateHash());
+            }
+          } else if (message.versionVector && rinfo?.address) {
+            // Send only the scans the requester is missing
+            const missingScans = getScansMissingFrom(this.localState, message.versionVector);
+            console.log(
+              `📢 [RECEIVED STATE-REQUEST] Peer is missing ${missingScans.length} scans according to its version vector`
+            );
+            if (missingScans.length > 0) {
+              await this.sendScansToPeer(missingScans, message.deviceId, rinfo.address, {
+                tombstones: nonEmpty(getTombstonesForScans(this.localState, missingScans)),
+                revocations: nonEmpty(Object.values(this.revocations)),
+                passDefinitions: nonEmpty(Object.values(this.passDefinitions)),
+              });
+            }
+          } else {
+            // Older peers don't send a version vector
+            console.log(`📢 [RECEIVED STATE-REQUEST] Peer requesting full state, sending ours...`);
+            if (rinfo?.address) {
+              await this.sendFullState(rinfo.address);
+            }
+          }
+          break;
+
+        case 'ack':
+          if (message.ackMessageId) {
+            console.log(
+              `✅ [RECEIVED ACK] Got ACK for message ${message.ackMessageId.substring(0, 8)}... from ${message.deviceId.substring(0, 8)}...`
+            );
+
+            // Votes on our strict mode claims
+            const recordVote = this.pendingClaimVotes.get(message.ackMessageId);
+            if (recordVote && message.claimGranted !== undefined) {
+              recordVote(message.deviceId, message.claimGranted);
+            }
+
+            // The peer now holds the event key this message offered
+            const offeredKeyId = this.keyOffers.get(message.ackMessageId);
+            if (offeredKeyId !== undefined) {
+              this.keyOffers.delete(message.ackMessageId);
+              await this.recordKeyHolder(message.deviceId, offeredKeyId);
+            }
+
+            // The peer now has the scans this message carried
+            const deliveredScanIds = this.messageScans.get(message.ackMessageId);
+            if (deliveredScanIds) {
+              await this.markScansDelivered(deliveredScanIds, message.deviceId);
+            }
+
+            // Remove from pending ACKs
+            const ackKey = `${message.ackMessageId}-${message.deviceId}`;
+            if (this.pendingAcks.has(ackKey)) {
+              this.pendingAcks.delete(ackKey);
+              await this.storage.removePendingAck(message.ackMessageId, message.deviceId);
+              console.log(
+                `✅ [ACK] Removed from pending: ${ackKey.substring(0, 16)}... (${this.pendingAcks.size} pending)`
+              );
+            }
+          }
+          break;
+
+        case 'key-update':
+          // Only from a device of our event (the message was sealed with one of our keys)
+          if (message.eventKey && message.messageId && rinfo?.address && this.enrolledEventId) {
+            const { keyId, key } = message.eventKey;
+            if (this.eventSecrets[keyId] === undefined && keyId > (this.currentKeyId ?? -1)) {
+              // Accept-only: we switch once the sender does (see reconcileEventKey)
+              await this.addEventKey(key, keyId);
+            }
+            await this.sendAck(message.messageId, rinfo.address, message.deviceId);
+          }
+          break;
+
+        case 'claim':
+          if (message.claim && message.messageId && rinfo?.address) {
+            const granted = this.voteOnClaim(
+              message.claim.qrCode,
+              message.claim.date,
+              message.deviceId
+            );
+            console.log(
+              `🔒 [CLAIM] ${granted ? 'Granted' : 'Denied'} ${message.claim.qrCode} on ${message.claim.date} to ${message.deviceId.substring(0, 8)}...`
+            );
+            await this.sendAck(message.messageId, rinfo.address, message.deviceId, granted);
+          }
+          break;
+
+        case 'heartbeat':
+          console.log(
+            `💓 [HEARTBEAT] Received from ${message.deviceId.substring(0, 8)}... at ${rinfo?.address}`
+          );
+          // Device info already updated above
+
+          // Estimate the peer's clock from the echo of our own heartbeat, and echo theirs back next time
+          if (message.heartbeatEcho) {
+            this.updateClockEstimate(
+              deviceInfo,
+              message.heartbeatEcho,
+              message.timestamp,
+              receivedAt
+            );
+          }
+          this.heartbeatEchoes.set(message.deviceId, { timestamp: message.timestamp, receivedAt });
+          break;
+
+        case 'state-hash':
+          if (message.stateHash) {
+            const ourHash = this.calculateStateHash();
+            console.log(`🔍 [STATE HASH] Peer: ${message.stateHash}, Ours: ${ourHash}`);
+
+            if (message.stateHash !== ourHash) {
+              console.log(`⚠️  [STATE HASH] State mismatch detected! Comparing Merkle trees...`);
+              if (rinfo?.address) {
+                await this.sendMerkleNodes(rinfo.address, 'qr', this.getMerkleTree().qrNodes);
+              }
+            } else {
+              console.log(`✅ [STATE HASH] States match!`);
+
+              // Update connection state to synced
+              const device = this.knownDevices.get(message.deviceId);
+              if (device) {
+                device.connectionState = 'synced';
+                this.knownDevices.set(message.deviceId, device);
+              }
+            }
+          }
+
+          // Revocations and pass definitions aren't in the Merkle tree: on a mismatch send
+          // ours (the peer does the same, and last-writer-wins merges both ways)
+          if (
+            message.recordsHash &&
+            message.recordsHash !== this.calculateRecordsHash() &&
+            rinfo?.address
+          ) {
+            console.log(`⚠️  [STATE HASH] Revocations or pass definitions differ, sending ours`);
+            const revocations = Object.values(this.revocations);
+            const passDefinitions = Object.values(this.passDefinitions);
+            if (revocations.length > 0 || passDefinitions.length > 0) {
+              await this.sendScansToPeer([], message.deviceId, rinfo.address, {
+                revocations: nonEmpty(revocations),
+                passDefinitions: nonEmpty(passDefinitions),
+              });
+            }
+          }
+          break;
+
+        case 'merkle-nodes':
+          if (message.merkleNodes && rinfo?.address) {
+            await this.handleMerkleNodes(message, rinfo.address);
+          }
+          break;
+
+        case 'bucket-request':
+          if (message.buckets && rinfo?.address) {
+            const scans = getScansInBuckets(this.localState, message.buckets);
+            const tombstones = getTombstonesInBuckets(this.localState, message.buckets);
+            console.log(
+              `📢 [BUCKET REQUEST] Peer requested ${message.buckets.length} buckets, sending ${scans.length} scans and ${tombstones.length} voids`
+            );
+            if (scans.length > 0 || tombstones.length > 0) {
+              await this.sendScansToPeer(scans, message.deviceId, rinfo.address, {
+                tombstones: nonEmpty(tombstones),
+              });
+            }
+          }
+          break;
+
+        case 'scan-request':
+          if (message.scanRanges && rinfo?.address) {
+            const scans = getScansInRanges(this.localState, message.scanRanges);
+            const tombstones = getTombstonesForScans(this.localState, scans);
+            console.log(
+              `📢 [SCAN REQUEST] Peer asked for ${message.scanRanges.map((range) => `${range.origin.substring(0, 8)}...#${range.from}-${range.to}`).join(', ')}, sending ${scans.length} scans`
+            );
+            if (scans.length > 0) {
+              await this.sendScansToPeer(scans, message.deviceId, rinfo.address, {
+                tombstones: nonEmpty(tombstones),
+              });
+            }
+          }
+          break;
+      }
+
+      // A lost delta shows up as a gap in an origin's scan sequence: ask for just those scans
+      await this.requestMissingScans(message, rinfo?.address);
+    } catch (error) {
+      console.error('❌ [RECEIVED] Error processing message:', error);
+    }
+  }
+
+  /**
+   * Ask for the scans a message shows we're missing: the sender's own scans up to
+   * the scan sequence it advertises, and any below the scans a delta carried. Each
+   * origin is asked directly when we can reach it, otherwise the sender is.
+   */
+  private async requestMissingScans(message: StateMessage, senderIp: string | undefined) {
+    if (!senderIp) return;
+
+    // The answer to our state request brings these anyway
+    if (this.clock.now() - this.lastStateRequestAt < STATE_REQUEST_COOLDOWN_MS) return;
+
+    const highestByOrigin: Map<string, number> = new Map();
+    if (message.scanSeq) {
+      highestByOrigin.set(message.deviceId, message.scanSeq);
+    }
+    message.deltas?.forEach((scan) => {
+      if (scan.seq !== undefined && scan.seq > (highestByOrigin.get(scan.deviceId) ?? 0)) {
+        highestByOrigin.set(scan.deviceId, scan.seq);
+      }
+    });
+
+    const now = this.clock.now();
+    const requests: Map<string, ScanRange[]> = new Map(); // Peer IP -> ranges to ask it for
+
+    for (const [origin, highest] of highestByOrigin) {
+      if (origin === this.deviceId) continue;
+      if (now - (this.scanRequestedAt.get(origin) ?? -Infinity) < SCAN_REQUEST_RETRY_MS) continue;
+
+      const ranges = getMissingScanRanges(this.localState, origin, highest);
+      if (ranges.length === 0) continue;
+
+      const peerIp = this.knownDevices.get(origin)?.ipAddress ?? senderIp;
+      requests.set(peerIp, [...(requests.get(peerIp) ?? []), ...ranges]);
+      this.scanRequestedAt.set(origin, now);
+    }
+
+    for (const [peerIp, ranges] of requests) {
+      await this.sendScanRequest(peerIp, ranges);
+    }
+  }
+
+  /**
+   * Ask a peer for scans by origin and scan sequence
+   */
+  private async sendScanRequest(peerIp: string, ranges: ScanRange[]) {
+    this.nextSequenceNumber();
+
+    const message: StateMessage = {
+      type: 'scan-request',
+      scanRanges: ranges,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    const count = ranges.reduce((sum, range) => sum + range.to - range.from + 1, 0);
+    try {
+      await this.sendToPeer(this.encodeForPeer(message, peerIp), peerIp);
+      console.log(`🔎 [SCAN REQUEST] Asked ${peerIp} for ${count} missing scans`);
+    } catch (error) {
+      console.error(`❌ [SCAN REQUEST] Failed to send to ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Send one level of our Merkle tree to a peer
+   */
+  private async sendMerkleNodes(
+    peerIp: string,
+    level: 'qr' | 'bucket',
+    nodes: Record<string, string>,
+    scope?: string[]
+  ) {
+    this.nextSequenceNumber();
+
+    const message: StateMessage = {
+      type: 'merkle-nodes',
+      merkleLevel: level,
+      merkleNodes: nodes,
+      merkleScope: scope,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    try {
+      await this.sendToPeer(this.encodeForPeer(message, peerIp), peerIp);
+      console.log(`🌳 [MERKLE] Sent ${Object.keys(nodes).length} ${level} nodes to ${peerIp}`);
+    } catch (error) {
+      console.error(`❌ [MERKLE] Failed to send ${level} nodes to ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Narrow down a state mismatch one tree level at a time.
+   *
+   * QR level: reply with our date buckets for every QR code that differs.
+   * Bucket level: push our scans for every differing bucket and ask the peer for theirs.
+   */
+  private async handleMerkleNodes(message: StateMessage, peerIp: string) {
+    const tree = this.getMerkleTree();
+    const theirNodes = message.merkleNodes!;
+
+    if (message.merkleLevel === 'qr') {
+      const differingQRs = diffNodes(tree.qrNodes, theirNodes);
+      console.log(
+        `🌳 [MERKLE] ${differingQRs.length} QR codes differ from peer ${message.deviceId.substring(0, 8)}...`
+      );
+      if (differingQRs.length === 0) return;
+
+      const ourBuckets: Record<string, string> = {};
+      for (const qrCode of differingQRs) {
+        const dates = tree.bucketNodes[qrCode] || {};
+        for (const date in dates) {
+          ourBuckets[bucketKey(qrCode, date)] = dates[date];
+        }
+      }
+
+      await this.sendMerkleNodes(peerIp, 'bucket', ourBuckets, differingQRs);
+      return;
+    }
+
+    // Bucket level - compare only within the QR codes the peer scoped
+    const scope = message.merkleScope || [];
+    const ourBuckets: Record<string, string> = {};
+    for (const qrCode of scope) {
+      const dates = tree.bucketNodes[qrCode] || {};
+      for (const date in dates) {
+        ourBuckets[bucketKey(qrCode, date)] = dates[date];
+      }
+    }
+
+    const differingBuckets = diffNodes(ourBuckets, theirNodes);
+    console.log(
+      `🌳 [MERKLE] ${differingBuckets.length} buckets differ from peer ${message.deviceId.substring(0, 8)}...`
+    );
+    if (differingBuckets.length === 0) return;
+
+    // Push what we have in those buckets
+    const ourScans = getScansInBuckets(this.localState, differingBuckets);
+    const ourTombstones = getTombstonesInBuckets(this.localState, differingBuckets);
+    if (ourScans.length > 0 || ourTombstones.length > 0) {
+      await this.sendScansToPeer(ourScans, message.deviceId, peerIp, {
+        tombstones: nonEmpty(ourTombstones),
+      });
+    }
+
+    // Ask the peer for what it has in those buckets
+    this.nextSequenceNumber();
+    const request: StateMessage = {
+      type: 'bucket-request',
+      buckets: differingBuckets,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    try {
+      await this.sendToPeer(this.encodeForPeer(request, peerIp), peerIp);
+      console.log(`📢 [MERKLE] Requested ${differingBuckets.length} buckets from ${peerIp}`);
+    } catch (error) {
+      console.error(`❌ [MERKLE] Failed to request buckets from ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Send scans (and other replicated records) to a single peer as a delta (with ACK tracking)
+   */
+  private async sendScansToPeer(
+    scans: ScanEvent[],
+    peerDeviceId: string,
+    peerIp: string,
+    extras: DeltaExtras = {}
+  ) {
+    this.nextSequenceNumber();
+    const messageId = uuidv4();
+    this.trackScanMessage(messageId, scans);
+
+    const message: StateMessage = {
+      type: 'delta',
+      messageId,
+      deltas: scans,
+      ...extras,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    const encoded = this.encodeForPeer(message, peerIp);
+
+    try {
+      await this.sendToPeer(encoded, peerIp);
+      await this.trackPendingAck({
+        messageId,
+        message: encoded,
+        peerIpAddress: peerIp,
+        timestamp: this.clock.now(),
+        attempts: 1,
+        peerDeviceId,
+      });
+      console.log(`✅ [SEND TO PEER] Sent ${scans.length} scans to ${peerIp}`);
+    } catch (error) {
+      console.error(`❌ [SEND TO PEER] Failed to send scans to ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Merge incoming scan events and tombstones (CRDT logic)
+   */
+  private async mergeDeltaScans(
+    incomingScans: ScanEvent[],
+    incomingTombstones: ScanTombstone[] = []
+  ) {
+    if (incomingScans.length === 0 && incomingTombstones.length === 0) {
+      console.log('⚠️  [MERGE] No scans to merge');
+      return;
+    }
+
+    // Tombstones first, so a voided scan arriving together with its tombstone never counts
+    const voidedQRCodes = await this.mergeTombstones(incomingTombstones);
+
+    console.log(`🔀 [MERGE] Starting merge of ${incomingScans.length} incoming scans`);
+    const newScans: ScanEvent[] = [];
+    const duplicateScans: ScanEvent[] = [];
+
+    for (const incomingScan of incomingScans) {
+      const { qrCode } = incomingScan;
+
+      // Initialize state for this QR if it doesn't exist
+      if (!this.localState[qrCode]) {
+        const type = this.getPassType(qrCode);
+        this.localState[qrCode] = {
+          type,
+          scans: [],
+        };
+        console.log(`  📝 [MERGE] Initialized new QR code entry: ${qrCode} (${type})`);
+      }
+
+      // Check if we already have this scan (by scanId)
+      const exists = this.localState[qrCode].scans.some(
+        (scan) => scan.scanId === incomingScan.scanId
+      );
+
+      if (!exists) {
+        this.localState[qrCode].scans.push(incomingScan);
+        newScans.push(incomingScan);
+        console.log(
+          `  ✅ [MERGE] NEW scan added: ${qrCode}, ScanId: ${incomingScan.scanId.substring(0, 8)}...`
+        );
+      } else {
+        duplicateScans.push(incomingScan);
+        console.log(
+          `  ⏭️  [MERGE] DUPLICATE scan skipped: ${qrCode}, ScanId: ${incomingScan.scanId.substring(0, 8)}...`
+        );
+      }
+    }
+
+    // Sort scans by HLC (deterministic ordering)
+    for (const qrCode in this.localState) {
+      sortScans(this.localState[qrCode].scans);
+    }
+
+    // Save new scans to database
+    if (newScans.length > 0) {
+      this.invalidateMerkleTree();
+
+      await this.storage.saveScanEvents(newScans);
+      console.log(`💾 [MERGE] Saved ${newScans.length} new scans to SQLite database`);
+
+      // Update JSON config for each new scan that hasn't been voided
+      for (const scan of newScans) {
+        if (isScanVoided(this.localState[scan.qrCode], scan.scanId)) continue;
+        await this.updateJSONConfigWithScan(scan.qrCode, scan.date);
+      }
+      console.log(`✅ [MERGE] Updated JSON config for ${newScans.length} new scans`);
+
+      // A merged scan may be a second acceptance of a one-use pass on another device
+      await this.recordConflicts(new Set(newScans.map((scan) => scan.qrCode)));
+
+      // Log summary
+      const qrCodeCounts: { [key: string]: number } = {};
+      newScans.forEach((scan) => {
+        qrCodeCounts[scan.qrCode] = (qrCodeCounts[scan.qrCode] || 0) + 1;
+      });
+      console.log(`📊 [MERGE] Summary by QR code:`, qrCodeCounts);
+    } else {
+      console.log(`ℹ️  [MERGE] No new scans to save (${duplicateScans.length} duplicates ignored)`);
+    }
+
+    // Voids change which dates are used and the counts, so recompute the config
+    if (voidedQRCodes.size > 0) {
+      await this.rebuildJSONConfigFromScans();
+    }
+
+    // Log current state
+    const totalScans = Object.values(this.localState).reduce(
+      (sum, pass) => sum + pass.scans.length,
+      0
+    );
+    console.log(
+      `📈 [MERGE] Current total scans in memory: ${totalScans} across ${Object.keys(this.localState).length} QR codes`
+    );
+  }
+
+  /**
+   * Merge incoming tombstones. Returns the QR codes that got new voids.
+   */
+  private async mergeTombstones(incomingTombstones: ScanTombstone[]): Promise<Set<string>> {
+    const newTombstones: ScanTombstone[] = [];
+
+    for (const tombstone of incomingTombstones) {
+      const { qrCode } = tombstone;
+
+      if (!this.localState[qrCode]) {
+        this.localState[qrCode] = {
+          type: this.getPassType(qrCode),
+          scans: [],
+        };
+      }
+
+      if (isScanVoided(this.localState[qrCode], tombstone.scanId)) continue;
+
+      (this.localState[qrCode].tombstones ||= []).push(tombstone);
+      newTombstones.push(tombstone);
+      console.log(
+        `  🪦 [MERGE] Scan voided: ${qrCode}, ScanId: ${tombstone.scanId.substring(0, 8)}..., by ${tombstone.deviceId.substring(0, 8)}...`
+      );
+    }
+
+    if (newTombstones.length > 0) {
+      this.invalidateMerkleTree();
+      await this.storage.saveTombstones(newTombstones);
+      console.log(`💾 [MERGE] Saved ${newTombstones.length} new tombstones to SQLite database`);
+    }
+
+    return new Set(newTombstones.map((tombstone) => tombstone.qrCode));
+  }
+
+  /**
+   * Void a scan (e.g. a pass accepted by mistake). The scan stays in the log but no
+   * longer counts anywhere; the tombstone replicates to every device.
+   */
+  async voidScan(scanId: string): Promise<ScanTombstone> {
+    const scan = Object.values(this.localState)
+      .flatMap((pass) => pass.scans)
+      .find((candidate) => candidate.scanId === scanId);
+
+    if (!scan) {
+      throw new Error('Scan not found');
+    }
+    if (isScanVoided(this.localState[scan.qrCode], scanId)) {
+      throw new Error('Scan is already voided');
+    }
+
+    const tombstone: ScanTombstone = {
+      scanId,
+      qrCode: scan.qrCode,
+      date: scan.date,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+      hlc: this.nextHlc(),
+    };
+
+    console.log(
+      `🪦 [VOID] Voiding scan ${scanId.substring(0, 8)}... of ${scan.qrCode} on ${scan.date}`
+    );
+
+    await this.mergeTombstones([tombstone]);
+    await this.rebuildJSONConfigFromScans();
+    await this.broadcastDelta([], { tombstones: [tombstone] });
+
+    return tombstone;
+  }
+
+  /**
+   * Detect one-use passes accepted more than once on the same date (by different
+   * devices while they couldn't see each other's scans) and record the conflict.
+   * The winner is picked deterministically so every device reports the same one.
+   */
+  private async recordConflicts(qrCodes: Set<string>) {
+    for (const qrCode of qrCodes) {
+      const pass = this.localState[qrCode];
+      if (!pass || pass.type !== 'one-use') continue;
+
+      for (const conflict of detectOneUseConflicts(
+        qrCode,
+        getActiveScans(pass),
+        this.clock.now()
+      )) {
+        const key = conflictKey(qrCode, conflict.date);
+        const existing = this.conflicts.get(key);
+
+        // Already recorded with the same competing scans
+        if (existing && existing.scans.length === conflict.scans.length) continue;
+
+        // Keep the original detection time when more scans join a known conflict
+        if (existing) conflict.detectedAt = existing.detectedAt;
+
+        this.conflicts.set(key, conflict);
+        await this.storage.saveConflict(conflict);
+
+        const winner = conflict.scans[0];
+        console.warn(
+          `⚠️  [CONFLICT] One-use pass ${qrCode} accepted ${conflict.scans.length}x on ${conflict.date}`
+        );
+        console.warn(
+          `   [CONFLICT] Winner: device ${winner.deviceId.substring(0, 8)}... at ${new Date(winner.timestamp).toISOString()}`
+        );
+        serviceEvents.emit('scan-conflict', conflict);
+      }
+    }
+  }
+
+  /**
+   * Get all detected one-use pass conflicts (newest first)
+   */
+  getConflicts(): ScanConflict[] {
+    return Array.from(this.conflicts.values()).sort((a, b) => b.detectedAt - a.detectedAt);
+  }
+
+  /**
+   * Get the number of detected one-use pass conflicts
+   */
+  getConflictsCount(): number {
+    return this.conflicts.size;
+  }
+
+  /**
+   * Merge full state from a peer (used for late-joining devices)
+   */
+  private async mergeFullState(peerState: LocalState) {
+    const allIncomingScans: ScanEvent[] = [];
+    const allIncomingTombstones: ScanTombstone[] = [];
+
+    for (const qrCode in peerState) {
+      const peerPass = peerState[qrCode];
+      allIncomingScans.push(...peerPass.scans);
+      allIncomingTombstones.push(...(peerPass.tombstones || []));
+    }
+
+    await this.mergeDeltaScans(allIncomingScans, allIncomingTombstones);
+    console.log('Merged full state from peer');
+  }
+
+  /**
+   * Our address changed (roaming between access points, reconnecting): peers on
+   * the new network don't know us yet, so discover them again
+   */
+  private handleNetworkChange(address: string | null) {
+    if (!this.running) return;
+
+    if (!address) {
+      console.warn('⚠️  [NETWORK] Network lost, waiting for a connection');
+      return;
+    }
+
+    console.log(`🔄 [NETWORK] Now at ${address}, restarting discovery`);
+    this.broadcastStateRequest().catch((err) => {
+      console.warn('Failed to request full state after a network change:', err);
+    });
+  }
+
+  /**
+   * Request missing state from peers: from the most recently seen connected peer,
+   * or, with none connected, by a broadcast that peers answer by making themselves known.
+   * Carries our version vector so the peer replies with only the scans we lack
+   */
+  async requestFullStateFromPeers() {
+    const [peer] = this.getConnectedPeers().sort((a, b) => b.lastSeen - a.lastSeen);
+    if (peer) {
+      await this.requestStateFromPeer(peer.deviceId, peer.ipAddress);
+    } else {
+      await this.broadcastStateRequest();
+    }
+  }
+
+  /**
+   * Broadcast a state request to find peers (each answers with a heartbeat, not with scans)
+   */
+  private async broadcastStateRequest() {
+    this.nextSequenceNumber();
+
+    const message: StateMessage = {
+      type: 'state-request',
+      versionVector: buildVersionVector(this.localState),
+      viaBroadcast: true,
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    const messageStr = this.encodeForBroadcast(message);
+    this.awaitingDiscovery = true;
+
+    // Use broadcast for initial discovery
+    try {
+      await this.broadcast(messageStr);
+      console.log('Requested full state from peers (broadcast)');
+    } catch (error) {
+      console.error('Failed to request full state:', error);
+    }
+  }
+
+  /**
+   * Ask one peer for the scans we lack
+   */
+  private async requestStateFromPeer(peerDeviceId: string, peerIp: string) {
+    this.nextSequenceNumber();
+    this.lastStateRequestAt = this.clock.now();
+    this.awaitingDiscovery = false;
+
+    const message: StateMessage = {
+      type: 'state-request',
+      versionVector: buildVersionVector(this.localState),
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    try {
+      await this.sendToPeer(this.encodeForPeer(message, peerIp), peerIp);
+      console.log(`Requested missing state from ${peerDeviceId.substring(0, 8)}... at ${peerIp}`);
+    } catch (error) {
+      console.error(`Failed to request state from ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Send our full state to one peer (older peers ask for it with a state request
+   * that has no version vector)
+   */
+  private async sendFullState(peerIp: string) {
+    this.nextSequenceNumber();
+
+    const totalScans = Object.values(this.localState).reduce(
+      (sum, pass) => sum + pass.scans.length,
+      0
+    );
+    const qrCodeCount = Object.keys(this.localState).length;
+
+    console.log(`📤 [SENDING FULL-STATE] Sending full state to ${peerIp}`);
+    console.log(
+      `  📊 [FULL-STATE] Contains ${qrCodeCount} QR codes with ${totalScans} total scans`
+    );
+
+    const message: StateMessage = {
+      type: 'full-state',
+      fullState: this.localState,
+      revocations: nonEmpty(Object.values(this.revocations)),
+      passDefinitions: nonEmpty(Object.values(this.passDefinitions)),
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+    };
+
+    try {
+      await this.sendToPeer(this.encodeForPeer(message, peerIp), peerIp);
+      console.log('✅ [SENDING FULL-STATE] Full state sent');
+    } catch (error) {
+      console.error(`❌ [SENDING FULL-STATE] Failed to send to ${peerIp}:`, error);
+    }
+  }
+
+  /**
+   * Start heartbeat mechanism (every 10 seconds by default)
+   * Sends lightweight heartbeat messages to maintain peer connections
+   */
+  private startHeartbeat() {
+    if (this.heartbeatInterval) {
+      this.clock.clearInterval(this.heartbeatInterval);
+    }
+
+    this.heartbeatInterval = this.clock.setInterval(async () => {
+      this.nextSequenceNumber();
+      const stateHash = this.calculateStateHash(); // Include state hash for quick verification
+
+      // Send heartbeat to all known peers
+      const peers = Array.from(this.knownDevices.values()).filter((p) => p.ipAddress);
+
+      if (peers.length > 0) {
+        console.log(`💓 [HEARTBEAT] Sending to ${peers.length} peers...`);
+
+        for (const peer of peers) {
+          await this.sendHeartbeat(peer, stateHash);
+        }
+      }
+
+      // Peers that dropped out no longer hold up a key rotation
+      await this.completeKeyRotationIfReady();
+    }, this.config.heartbeatIntervalMs);
+  }
+
+  /**
+   * Send a heartbeat to one peer, with the echo of its own last heartbeat (once) for
+   * clock estimation. Uses the current sequence number: the caller takes a new one.
+   */
+  private async sendHeartbeat(peer: DeviceInfo, stateHash: string) {
+    const heartbeatMessage: StateMessage = {
+      type: 'heartbeat',
+      sequenceNum: this.sequenceNumber,
+      deviceId: this.deviceId,
+      timestamp: this.clock.now(),
+      stateHash,
+      heartbeatEcho: this.heartbeatEchoes.get(peer.deviceId),
+    };
+    this.heartbeatEchoes.delete(peer.deviceId);
+
+    try {
+      await this.sendToPeer(this.encodeForPeer(heartbeatMessage, peer.ipAddress!), peer.ipAddress!);
+    } catch (error) {
+      console.error(`❌ [HEARTBEAT] Failed to send to ${peer.ipAddress}:`, error);
+    }
+  }
+
+  /**
+   * Start ACK retry processor (every 2 seconds by default)
+   * Retries messages that haven't been acknowledged
+   */
+  private startAckRetryProcessor() {
+    if (this.ackRetryInterval) {
+      this.clock.clearInterval(this.ackRetryInterval);
+    }
+
+    this.ackRetryInterval = this.clock.setInterval(async () => {
+      const now = this.clock.now();
+      const ACK_TIMEOUT = 5000; // 5 seconds
+      const MAX_ATTEMPTS = 5;
+
+      const toRetry: [string, PendingMessage][] = [];
+
+      // Find messages that need retry
+      for (const [ackKey, pending] of this.pendingAcks.entries()) {
+        const timeSinceSent = now - pending.timestamp;
+
+        if (timeSinceSent > ACK_TIMEOUT) {
+          if (pending.attempts >= MAX_ATTEMPTS) {
+            // Give up after max attempts
+            console.log(
+              `❌ [ACK RETRY] Giving up on ${ackKey.substring(0, 16)}... after ${MAX_ATTEMPTS} attempts`
+            );
+            this.pendingAcks.delete(ackKey);
+            await this.storage.removePendingAck(pending.messageId, pending.peerDeviceId);
+          } else {
+            toRetry.push([ackKey, pending]);
+          }
+        }
+      }
+
+      // Retry messages
+      for (const [ackKey, pending] of toRetry) {
+        try {
+          console.log(
+            `🔄 [ACK RETRY] Retrying ${ackKey.substring(0, 16)}... (attempt ${pending.attempts + 1}/${MAX_ATTEMPTS})`
+          );
+          // The peer may have moved to a new address since the message was first sent
+          pending.peerIpAddress =
+            this.knownDevices.get(pending.peerDeviceId)?.ipAddress ?? pending.peerIpAddress;
+          await this.sendToPeer(pending.message, pending.peerIpAddress);
+
+          // Update attempts and timestamp
+          pending.attempts++;
+          pending.timestamp = now;
+          this.pendingAcks.set(ackKey, pending);
+          await this.storage.savePendingAck(pending);
+        } catch (error) {
+          console.error(`❌ [ACK RETRY] Retry failed for ${ackKey.substring(0, 16)}...:`, error);
+        }
+      }
+
+      if (toRetry.length > 0) {
+        console.log(
+          `📊 [ACK RETRY] Retried ${toRetry.length} messages, ${this.pendingAcks.size} still pending`
+        );
+      }
+    }, this.config.ackRetryIntervalMs);
+  }
+
+  /**
+   * Start state reconciliation (every 20 seconds by default)
+   * Sends state hash to peers for verification
+   */
+  private startStateReconciliation() {
+    if (this.reconciliationInterval) {
+      this.clock.clearInterval(this.reconciliationInterval);
+    }
+
+    this.reconciliationInterval = this.clock.setInterval(async () => {
+      this.nextSequenceNumber();
+
+      const stateHash = this.calculateStateHash();
+      const hashMessage: StateMessage = {
+        type: 'state-hash',
+        stateHash,
+        sequenceNum: this.sequenceNumber,
+        deviceId: this.deviceId,
+        timestamp: this.clock.now(),
+      };
+
+      // Send to all known peers
+      const peers = Array.from(this.knownDevices.values()).filter((p) => p.ipAddress);
+
+      if (peers.length > 0) {
+        console.log(
+          `🔍 [RECONCILIATION] Sending state hash (${stateHash}) to ${peers.length} peers...`
+        );
+
+        for (const peer of peers) {
+          try {
+            await this.sendToPeer(
+              this.encodeForPeer(hashMessage, peer.ipAddress!),
+              peer.ipAddress!
+            );
+          } catch (error) {
+            console.error(`❌ [RECONCILIATION] Failed to send to ${peer.ipAddress}:`, error);
+          }
+        }
+      }
+    }, this.config.reconciliationIntervalMs);
+  }
+
+  /**
+   * Start periodic sync (every 30 seconds by default): a state summary to every
+   * known peer, so a peer that differs compares Merkle trees or sends its
+   * revocations and pass definitions instead of everyone sending everything
+   */
+  private startPeriodicSync() {
+    if (this.syncInterval) {
+      this.clock.clearInterval(this.syncInterval);
+    }
+
+    this.syncInterval = this.clock.setInterval(async () => {
+      this.nextSequenceNumber();
+
+      const summary: StateMessage = {
+        type: 'state-hash',
+        stateHash: this.calculateStateHash(),
+        recordsHash: this.calculateRecordsHash(),
+        sequenceNum: this.sequenceNumber,
+        deviceId: this.deviceId,
+        timestamp: this.clock.now(),
+      };
+
+      const peers = Array.from(this.knownDevices.values()).filter((p) => p.ipAddress);
+      if (peers.length > 0) {
+        console.log(`🔄 [PERIODIC SYNC] Sending state summary to ${peers.length} peers...`);
+      }
+
+      for (const peer of peers) {
+        try {
+          await this.sendToPeer(this.encodeForPeer(summary, peer.ipAddress!), peer.ipAddress!);
+        } catch (error) {
+          console.error(`❌ [PERIODIC SYNC] Failed to send to ${peer.ipAddress}:`, error);
+        }
+      }
+    }, this.config.fullSyncIntervalMs);
+  }
+
+  /**
+   * Stop periodic sync
+   */
+  stopPeriodicSync() {
+    if (this.syncInterval) {
+      this.clock.clearInterval(this.syncInterval);
+      this.syncInterval = null;
+    }
+  }
+
+  /**
+   * Process broadcast queue (retry failed broadcasts)
+   */
+  private async processBroadcastQueue() {
+    const pending = await this.storage.getPendingBroadcasts(5);
+
+    for (const item of pending) {
+      try {
+        await this.broadcast(item.message);
+        await this.storage.removeBroadcast(item.id);
+        console.log(`Successfully retried broadcast ${item.id}`);
+      } catch {
+        await this.storage.updateBroadcastAttempt(item.id);
+        console.log(`Retry ${item.attempts + 1} failed for broadcast ${item.id}`);
+      }
+    }
+  }
+
+  /**
+   * Start broadcast queue processor (every 3 seconds by default)
+   */
+  private startBroadcastQueueProcessor() {
+    if (this.broadcastQueueInterval) {
+      this.clock.clearInterval(this.broadcastQueueInterval);
+    }
+
+    this.broadcastQueueInterval = this.clock.setInterval(async () => {
+      await this.processBroadcastQueue();
+    }, this.config.broadcastQueueIntervalMs);
+  }
+
+  /**
+   * Get connected devices count
+   * Reduced timeout to 30 seconds for faster failure detection with heartbeat support
+   */
+  getConnectedDevicesCount(): number {
+    const now = this.clock.now();
+    const timeout = this.config.peerTimeoutMs; // heartbeats keep connections alive
+
+    let count = 0;
+    let totalDevices = 0;
+
+    for (const device of this.knownDevices.values()) {
+      totalDevices++;
+      const timeSinceLastSeen = now - device.lastSeen;
+      const isActive = timeSinceLastSeen < timeout;
+
+      if (isActive) {
+        count++;
+      }
+
+      // Debug log for each device
+      console.log(
+        `👥 [PEER CHECK] Device ${device.deviceId.substring(0, 8)}... | IP: ${device.ipAddress} | Last seen: ${Math.floor(timeSinceLastSeen / 1000)}s ago | Active: ${isActive}`
+      );
+    }
+
+    console.log(`👥 [PEER COUNT] Total known devices: ${totalDevices}, Active devices: ${count}`);
+    return count;
+  }
+
+  /**
+   * Get all connected peer IPs
+   * Returns array of peer info with deviceId and IP address
+   */
+  getConnectedPeers(): { deviceId: string; ipAddress: string; lastSeen: number }[] {
+    const now = this.clock.now();
+    const timeout = this.config.peerTimeoutMs;
+
+    const peers: { deviceId: string; ipAddress: string; lastSeen: number }[] = [];
+
+    for (const device of this.knownDevices.values()) {
+      if (now - device.lastSeen < timeout && device.ipAddress) {
+        peers.push({
+          deviceId: device.deviceId,
+          ipAddress: device.ipAddress,
+          lastSeen: device.lastSeen,
+        });
+      }
+    }
+
+    return peers;
+  }
+
+  /**
+   * Print all connected peer IPs to console
+   */
+  printPeerIPs(): void {
+    const peers = this.getConnectedPeers();
+
+    if (peers.length === 0) {
+      console.log('No connected peers found');
+      return;
+    }
+
+    console.log(`\n=== Connected Peers (${peers.length}) ===`);
+    peers.forEach((peer, index) => {
+      const secondsAgo = Math.floor((this.clock.now() - peer.lastSeen) / 1000);
+      console.log(
+        `${index + 1}. Device: ${peer.deviceId.substring(0, 8)}... | IP: ${peer.ipAddress} | Last seen: ${secondsAgo}s ago`
+      );
+    });
+    console.log('========================\n');
+  }
+
+  /**
+   * Get time since last sync
+   */
+  getTimeSinceLastSync(): number {
+    const now = this.clock.now();
+    let mostRecentSync = 0;
+
+    for (const device of this.knownDevices.values()) {
+      if (device.lastSeen > mostRecentSync) {
+        mostRecentSync = device.lastSeen;
+      }
+    }
+
+    return mostRecentSync > 0 ? Math.floor((now - mostRecentSync) / 1000) : 0;
+  }
+
+  /**
+   * Get pending broadcasts count
+   */
+  async getPendingBroadcastsCount(): Promise<number> {
+    return await this.storage.getPendingBroadcastCount();
+  }
+
+  /**
+   * Get pending ACKs count (messages waiting for acknowledgment)
+   */
+  getPendingAcksCount(): number {
+    return this.pendingAcks.size;
+  }
+
+  /**
+   * Stop the engine: every timer, and the transport. State stays loaded and
+   * start() can be called again.
+   */
+  stop() {
+    this.stopPeriodicSync();
+
+    // Stop all intervals
+    if (this.heartbeatInterval) {
+      this.clock.clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    if (this.ackRetryInterval) {
+      this.clock.clearInterval(this.ackRetryInterval);
+      this.ackRetryInterval = null;
+    }
+
+    if (this.reconciliationInterval) {
+      this.clock.clearInterval(this.reconciliationInterval);
+      this.reconciliationInterval = null;
+    }
+
+    if (this.broadcastQueueInterval) {
+      this.clock.clearInterval(this.broadcastQueueInterval);
+      this.broadcastQueueInterval = null;
+    }
+
+    // Stop listening before closing, so nothing arrives half-way through
+    this.unsubscribeTransport?.();
+    this.unsubscribeTransport = null;
+    this.unsubscribeNetworkChange?.();
+    this.unsubscribeNetworkChange = null;
+    this.transport.stop();
+    this.running = false;
+
+    console.log('🛑 [SHUTDOWN] P2P service shutdown - all intervals stopped, transport closed');
+  }
+}
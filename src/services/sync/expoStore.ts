@@ -0,0 +1,12 @@
+import * as SQLite from 'expo-sqlite';
+import { ScanStore } from './store';
+import { createSqliteStore } from './storage';
+
+const DB_NAME = 'offline_scanner.db';
+
+/**
+ * The app's store: SQLite on the device through expo-sqlite
+ */
+export function createExpoStore(name: string = DB_NAME): ScanStore {
+  return createSqliteStore(() => SQLite.openDatabaseAsync(name));
+}
@@ -0,0 +1,69 @@
+import { HybridTimestamp, ScanEvent } from './types';
+
+/**
+ * Hybrid logical clock (Kulkarni et al.).
+ *
+ * wallTime follows the highest physical time seen anywhere in the event (ours or
+ * a peer's), counter orders events within the same millisecond. Every message we
+ * receive advances our clock past the sender's, so a scan recorded after seeing
+ * another device's scan always orders after it, even if our wall clock is behind.
+ */
+
+/**
+ * Remote clocks further ahead of ours than this are ignored rather than letting
+ * one badly set device drag every clock in the event forward. Kept close to the
+ * 30-second duplicate window, so a fast peer can't hold a pass's window open
+ * for much longer than the window itself; clocks further off show up as a
+ * skew warning instead.
+ */
+export const MAX_CLOCK_DRIFT_MS = 30 * 1000;
+
+export const ZERO_HLC: HybridTimestamp = { wallTime: 0, counter: 0 };
+
+/**
+ * Advance the clock for a local event (scan or outgoing message)
+ */
+export function tickHlc(last: HybridTimestamp, physicalNow: number): HybridTimestamp {
+  if (physicalNow > last.wallTime) {
+    return { wallTime: physicalNow, counter: 0 };
+  }
+  return { wallTime: last.wallTime, counter: last.counter + 1 };
+}
+
+/**
+ * Advance the clock past a timestamp received from a peer
+ */
+export function receiveHlc(
+  last: HybridTimestamp,
+  remote: HybridTimestamp,
+  physicalNow: number
+): HybridTimestamp {
+  if (remote.wallTime - physicalNow > MAX_CLOCK_DRIFT_MS) {
+    return last;
+  }
+
+  const wallTime = Math.max(last.wallTime, remote.wallTime, physicalNow);
+
+  if (wallTime === last.wallTime && wallTime === remote.wallTime) {
+    return { wallTime, counter: Math.max(last.counter, remote.counter) + 1 };
+  }
+  if (wallTime === last.wallTime) {
+    return { wallTime, counter: last.counter + 1 };
+  }
+  if (wallTime === remote.wallTime) {
+    return { wallTime, counter: remote.counter + 1 };
+  }
+  return { wallTime, counter: 0 };
+}
+
+export function compareHlc(a: HybridTimestamp, b: HybridTimestamp): number {
+  if (a.wallTime !== b.wallTime) return a.wallTime - b.wallTime;
+  return a.counter - b.counter;
+}
+
+/**
+ * HLC of a scan. Scans recorded before HLCs existed fall back to their wall time.
+ */
+export function scanHlc(scan: ScanEvent): HybridTimestamp {
+  return scan.hlc ?? { wallTime: scan.timestamp, counter: 0 };
+}
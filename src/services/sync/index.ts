@@ -1,85 +1,42 @@
 import "./events";
-import { getEntry, initializeP2P, addScanEvent, getLocalState, getJSONConfigState, getConnectedDevicesCount, getTimeSinceLastSync, getPendingBroadcastsCount, getPendingAcksCount, getConnectedPeers, printPeerIPs } from "./state";
-import { getTodayKey } from "./utils";
-import { ScanValidationResult } from "./types";
-import * as Storage from "./storage";
+import { getEntry, initializeP2P, validateScan, handleScannedQRCode, getLocalState, getJSONConfigState, getConnectedDevicesCount, getTimeSinceLastSync, getPendingBroadcastsCount, getPendingAcksCount, getConnectedPeers, printPeerIPs, setEventSecret, addEventKey, retireEventKey, getRejectedMessagesCount, enrollInEvent, createEvent, rotateEventKey, getKeyRotationStatus, getEnrollment, isEnrollmentAdmin, getConflicts, getConflictsCount, getStrictModeConfig, setStrictModeConfig, getSkewedPeers, getClockSkewThreshold, setClockSkewThreshold, voidScan, revokePass, restorePass, getRevokedPasses, getPassDefinition, getPassDefinitions, savePassDefinition, getScanReplicationStatus, getRecentScanReplication } from "./state";
+import { PairingResult } from "./types";
+import { parsePairingPayload } from "./pairing";
 
 /**
- * Validate a scan before processing
+ * Handle a scanned pairing QR code from an admin device
+ * Returns the pairing result
  */
-export async function validateScan(qrCode: string): Promise<ScanValidationResult> {
-  // Check if QR code exists in JSON config (this has all valid QR codes)
-  const jsonConfig = getJSONConfigState();
-  const configEntry = jsonConfig[qrCode];
+export async function handlePairingQRCode(scannedData: string): Promise<PairingResult> {
+  const enrollment = parsePairingPayload(scannedData);
 
-  if (!configEntry) {
+  if (!enrollment) {
+    console.warn('Pairing rejected: not a valid pairing code');
     return {
-      allowed: false,
-      reason: "Unknown QR code",
+      paired: false,
+      reason: "Not a valid pairing code",
     };
   }
 
-  const today = getTodayKey();
-  const todayScans = await Storage.getScansForQROnDate(qrCode, today);
-
-  // For one-use passes, check if already used today
-  if (configEntry.type === "one-use") {
-    if (todayScans.length > 0) {
-      return {
-        allowed: false,
-        reason: "One-use pass already used today",
-        todayScansCount: todayScans.length,
-      };
-    }
-  }
-
-  // Check for duplicate scan within 5 minutes (for both types)
-  const fiveMinutesAgo = Date.now() - 30 * 1000;
-  const recentScans = todayScans.filter(scan => scan.timestamp > fiveMinutesAgo);
-
-  if (recentScans.length > 0) {
+  try {
+    await enrollInEvent(enrollment);
+    console.log(`Paired with event ${enrollment.eventId}`);
     return {
-      allowed: false,
-      reason: "Already scanned within the last 30 seconds",
-      todayScansCount: todayScans.length,
+      paired: true,
+      eventId: enrollment.eventId,
     };
-  }
-
-  return {
-    allowed: true,
-    todayScansCount: todayScans.length,
-  };
-}
-
-/**
- * Handle scanned QR code with validation
- * Returns the validation result
- */
-export async function handleScannedQRCode(scannedData: string): Promise<ScanValidationResult> {
-  // Validate the scan
-  const validation = await validateScan(scannedData);
-
-  if (!validation.allowed) {
-    console.warn(`Scan rejected for ${scannedData}: ${validation.reason}`);
-    return validation;
-  }
-
-  // Scan is valid, add the event
-  const today = getTodayKey();
-  try {
-    await addScanEvent(scannedData, today);
-    console.log(`Scan accepted for ${scannedData}`);
-    return validation;
   } catch (error) {
-    console.error('Failed to process scan:', error);
+    console.error('Failed to pair device:', error);
     return {
-      allowed: false,
-      reason: 'Failed to process scan. Please try again.',
+      paired: false,
+      reason: 'Failed to pair device. Please try again.',
     };
   }
 }
 
 export {
+  validateScan,
+  handleScannedQRCode,
   getEntry,
   initializeP2P,
   getLocalState,
@@ -89,5 +46,30 @@ export {
   getPendingBroadcastsCount,
   getPendingAcksCount,
   getConnectedPeers,
-  printPeerIPs
+  printPeerIPs,
+  setEventSecret,
+  addEventKey,
+  retireEventKey,
+  getRejectedMessagesCount,
+  createEvent,
+  rotateEventKey,
+  getKeyRotationStatus,
+  getEnrollment,
+  isEnrollmentAdmin,
+  getConflicts,
+  getConflictsCount,
+  getStrictModeConfig,
+  setStrictModeConfig,
+  getSkewedPeers,
+  getClockSkewThreshold,
+  setClockSkewThreshold,
+  voidScan,
+  revokePass,
+  restorePass,
+  getRevokedPasses,
+  getPassDefinition,
+  getPassDefinitions,
+  savePassDefinition,
+  getScanReplicationStatus,
+  getRecentScanReplication
 };
@@ -0,0 +1,23 @@
+import { compareHlc } from './hlc';
+import { HybridTimestamp } from './types';
+
+/**
+ * Last-writer-wins registers, ordered by hybrid logical clock with the device
+ * ID as tie-breaker so every device keeps the same value whatever order the
+ * writes arrive in.
+ */
+export interface LwwStamp {
+  deviceId: string;
+  hlc: HybridTimestamp;
+}
+
+/**
+ * Whether an incoming write replaces the current one
+ */
+export function lwwWins(incoming: LwwStamp, current: LwwStamp | undefined): boolean {
+  if (!current) return true;
+
+  const byClock = compareHlc(incoming.hlc, current.hlc);
+  if (byClock !== 0) return byClock > 0;
+  return incoming.deviceId > current.deviceId;
+}
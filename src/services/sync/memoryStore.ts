@@ -0,0 +1,361 @@
+import {
+  LocalState,
+  ScanEvent,
+  DeviceInfo,
+  ScanConflict,
+  HybridTimestamp,
+  ScanTombstone,
+  PassRevocation,
+  PassDefinition,
+  PendingMessage,
+} from './types';
+import { PassType, QueuedBroadcast, ScanDelivery, ScanStore } from './store';
+import { compareHlc } from './hlc';
+
+/**
+ * A store that keeps everything in maps, for running engines headlessly without
+ * SQLite. It follows the SQLite store row for row: what goes in comes back as a
+ * copy, with the fields SQLite would keep, in the order SQLite would return it.
+ */
+
+// A broadcast queue row
+interface QueueEntry extends QueuedBroadcast {
+  createdAt: number;
+}
+
+const MAX_BROADCAST_ATTEMPTS = 5;
+const BROADCAST_BATCH_SIZE = 10;
+
+// Copies shaped like the SQLite rows mapped back to objects
+function copyHlc(hlc: HybridTimestamp | undefined): HybridTimestamp | undefined {
+  return hlc ? { wallTime: hlc.wallTime, counter: hlc.counter } : undefined;
+}
+
+function copyScan(scan: ScanEvent): ScanEvent {
+  return {
+    scanId: scan.scanId,
+    qrCode: scan.qrCode,
+    timestamp: scan.timestamp,
+    deviceId: scan.deviceId,
+    date: scan.date,
+    seq: scan.seq,
+    hlc: copyHlc(scan.hlc),
+  };
+}
+
+function copyTombstone(tombstone: ScanTombstone): ScanTombstone {
+  return {
+    scanId: tombstone.scanId,
+    qrCode: tombstone.qrCode,
+    date: tombstone.date,
+    deviceId: tombstone.deviceId,
+    timestamp: tombstone.timestamp,
+    hlc: copyHlc(tombstone.hlc),
+  };
+}
+
+function copyDevice(device: DeviceInfo): DeviceInfo {
+  return {
+    deviceId: device.deviceId,
+    lastSequence: device.lastSequence,
+    lastSeen: device.lastSeen,
+    ipAddress: device.ipAddress || undefined,
+  };
+}
+
+function copyPendingAck(pending: PendingMessage): PendingMessage {
+  return {
+    messageId: pending.messageId,
+    peerDeviceId: pending.peerDeviceId,
+    peerIpAddress: pending.peerIpAddress,
+    message: typeof pending.message === 'string' ? pending.message : pending.message.slice(),
+    attempts: pending.attempts,
+    timestamp: pending.timestamp,
+  };
+}
+
+function copyDefinition(definition: PassDefinition): PassDefinition {
+  return {
+    qrCode: definition.qrCode,
+    type: definition.type,
+    allowedDates: [...definition.allowedDates],
+    metadata: definition.metadata ? { ...definition.metadata } : undefined,
+    deviceId: definition.deviceId,
+    timestamp: definition.timestamp,
+    hlc: { wallTime: definition.hlc.wallTime, counter: definition.hlc.counter },
+  };
+}
+
+function copyRevocation(revocation: PassRevocation): PassRevocation {
+  return {
+    qrCode: revocation.qrCode,
+    revoked: revocation.revoked,
+    reason: revocation.reason ?? undefined,
+    deviceId: revocation.deviceId,
+    timestamp: revocation.timestamp,
+    hlc: { wallTime: revocation.hlc.wallTime, counter: revocation.hlc.counter },
+  };
+}
+
+function copyConflict(conflict: ScanConflict): ScanConflict {
+  return {
+    qrCode: conflict.qrCode,
+    date: conflict.date,
+    winnerScanId: conflict.winnerScanId,
+    scans: JSON.parse(JSON.stringify(conflict.scans)),
+    detectedAt: conflict.detectedAt,
+  };
+}
+
+function byTimestamp(a: ScanEvent, b: ScanEvent): number {
+  return a.timestamp - b.timestamp;
+}
+
+export function createMemoryStore(): ScanStore {
+  // Insertion order stands in for SQLite's rowid: replacing a row moves it to the end
+  const scans: Map<string, ScanEvent> = new Map();
+  const tombstones: Map<string, ScanTombstone> = new Map();
+  const passTypes: Map<string, PassType> = new Map();
+  const devices: Map<string, DeviceInfo> = new Map();
+  const settings: Map<string, string> = new Map();
+  const broadcastQueue: Map<number, QueueEntry> = new Map();
+  const pendingAcks: Map<string, PendingMessage> = new Map();
+  const deliveries: Map<string, ScanDelivery> = new Map();
+  const conflicts: Map<string, ScanConflict> = new Map();
+  const passDefinitions: Map<string, PassDefinition> = new Map();
+  const revocations: Map<string, PassRevocation> = new Map();
+  let nextBroadcastId = 1;
+
+  const replace = <K, V>(map: Map<K, V>, key: K, value: V) => {
+    map.delete(key);
+    map.set(key, value);
+  };
+
+  const scansForQR = (qrCode: string) =>
+    Array.from(scans.values())
+      .filter((scan) => scan.qrCode === qrCode)
+      .sort(byTimestamp)
+      .map(copyScan);
+
+  const scansOnDate = (qrCode: string, date: string) =>
+    scansForQR(qrCode).filter((scan) => scan.date === date && !tombstones.has(scan.scanId));
+
+  const tombstonesForQR = (qrCode: string) =>
+    Array.from(tombstones.values())
+      .filter((tombstone) => tombstone.qrCode === qrCode)
+      .map(copyTombstone);
+
+  const pendingBroadcasts = (maxAttempts: number) =>
+    Array.from(broadcastQueue.values())
+      .filter((entry) => entry.attempts < maxAttempts)
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+  return {
+    async init() {
+      console.log('✅ [DB] In-memory store initialized');
+    },
+
+    async saveScanEvent(event) {
+      replace(scans, event.scanId, copyScan(event));
+    },
+
+    async saveScanEvents(events) {
+      events.forEach((event) => replace(scans, event.scanId, copyScan(event)));
+    },
+
+    async getScansForQR(qrCode) {
+      return scansForQR(qrCode);
+    },
+
+    async getScansForQROnDate(qrCode, date) {
+      return scansOnDate(qrCode, date);
+    },
+
+    async recordScan(qrCode, date, decide) {
+      // Nothing can interleave: reading, deciding and saving happen in one turn
+      const event = decide(scansOnDate(qrCode, date));
+      if (event) replace(scans, event.scanId, copyScan(event));
+      return event;
+    },
+
+    async getHighestOriginSeq(deviceId) {
+      let highest = 0;
+      scans.forEach((scan) => {
+        if (scan.deviceId === deviceId && (scan.seq ?? 0) > highest) highest = scan.seq!;
+      });
+      return highest;
+    },
+
+    async getLatestScanHlc() {
+      let latest: HybridTimestamp | undefined;
+      for (const scan of scans.values()) {
+        if (scan.hlc && (!latest || compareHlc(scan.hlc, latest) > 0)) latest = scan.hlc;
+      }
+      return copyHlc(latest) ?? null;
+    },
+
+    async getTotalScanCount() {
+      return scans.size;
+    },
+
+    async loadState(qrCodes) {
+      const state: LocalState = {};
+      for (const qrCode of qrCodes) {
+        const qrTombstones = tombstonesForQR(qrCode);
+        state[qrCode] = {
+          type: passTypes.get(qrCode) || (qrCode.includes('I') ? 'infinite' : 'one-use'),
+          scans: scansForQR(qrCode),
+          ...(qrTombstones.length > 0 && { tombstones: qrTombstones }),
+        };
+      }
+      return state;
+    },
+
+    async saveTombstones(newTombstones) {
+      newTombstones.forEach((tombstone) => {
+        if (!tombstones.has(tombstone.scanId))
+          tombstones.set(tombstone.scanId, copyTombstone(tombstone));
+      });
+    },
+
+    async getTombstonesForQR(qrCode) {
+      return tombstonesForQR(qrCode);
+    },
+
+    async savePassType(qrCode, type) {
+      replace(passTypes, qrCode, type);
+    },
+
+    async savePassDefinition(definition) {
+      replace(passDefinitions, definition.qrCode, copyDefinition(definition));
+    },
+
+    async getAllPassDefinitions() {
+      return Array.from(passDefinitions.values()).map(copyDefinition);
+    },
+
+    async saveRevocation(revocation) {
+      replace(revocations, revocation.qrCode, copyRevocation(revocation));
+    },
+
+    async getAllRevocations() {
+      return Array.from(revocations.values()).map(copyRevocation);
+    },
+
+    async updateDeviceState(deviceInfo) {
+      replace(devices, deviceInfo.deviceId, copyDevice(deviceInfo));
+    },
+
+    async getDeviceState(deviceId) {
+      const device = devices.get(deviceId);
+      return device ? copyDevice(device) : null;
+    },
+
+    async getAllDeviceStates() {
+      return Array.from(devices.values()).map(copyDevice);
+    },
+
+    async enqueueBroadcast(message) {
+      const id = nextBroadcastId++;
+      broadcastQueue.set(id, { id, message, attempts: 0, createdAt: Date.now() });
+    },
+
+    async getPendingBroadcasts(maxAttempts = MAX_BROADCAST_ATTEMPTS) {
+      return pendingBroadcasts(maxAttempts)
+        .slice(0, BROADCAST_BATCH_SIZE)
+        .map(({ id, message, attempts }) => ({ id, message, attempts }));
+    },
+
+    async updateBroadcastAttempt(id) {
+      const entry = broadcastQueue.get(id);
+      if (entry) entry.attempts++;
+    },
+
+    async removeBroadcast(id) {
+      broadcastQueue.delete(id);
+    },
+
+    async getPendingBroadcastCount() {
+      return pendingBroadcasts(MAX_BROADCAST_ATTEMPTS).length;
+    },
+
+    async savePendingAck(pending) {
+      replace(pendingAcks, `${pending.messageId}:${pending.peerDeviceId}`, copyPendingAck(pending));
+    },
+
+    async removePendingAck(messageId, peerDeviceId) {
+      pendingAcks.delete(`${messageId}:${peerDeviceId}`);
+    },
+
+    async clearPendingAcks() {
+      pendingAcks.clear();
+    },
+
+    async getAllPendingAcks() {
+      return Array.from(pendingAcks.values()).map(copyPendingAck);
+    },
+
+    async saveScanDeliveries(scanIds, peerDeviceId) {
+      scanIds.forEach((scanId) => {
+        const key = `${scanId}:${peerDeviceId}`;
+        if (!deliveries.has(key)) deliveries.set(key, { scanId, peerDeviceId });
+      });
+    },
+
+    async getAllScanDeliveries() {
+      return Array.from(deliveries.values()).map((delivery) => ({ ...delivery }));
+    },
+
+    async saveConflict(conflict) {
+      replace(conflicts, `${conflict.qrCode}:${conflict.date}`, copyConflict(conflict));
+    },
+
+    async getAllConflicts() {
+      return Array.from(conflicts.values())
+        .sort((a, b) => b.detectedAt - a.detectedAt)
+        .map(copyConflict);
+    },
+
+    async getOrCreateDeviceId(generateId) {
+      const existing = settings.get('device_id');
+      if (existing) return existing;
+
+      const deviceId = generateId();
+      settings.set('device_id', deviceId);
+      return deviceId;
+    },
+
+    async getSetting(key) {
+      return settings.get(key) ?? null;
+    },
+
+    async saveSetting(key, value) {
+      replace(settings, key, value);
+    },
+
+    async saveJSONConfig(config) {
+      replace(settings, 'json_config', JSON.stringify(config));
+    },
+
+    async loadJSONConfig() {
+      const saved = settings.get('json_config');
+      return saved ? JSON.parse(saved) : null;
+    },
+
+    async clearAllData() {
+      [
+        scans,
+        tombstones,
+        passTypes,
+        devices,
+        settings,
+        broadcastQueue,
+        pendingAcks,
+        deliveries,
+        conflicts,
+        passDefinitions,
+        revocations,
+      ].forEach((map) => map.clear());
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { Clock, systemClock } from './clock';
+import { MessageHandler, Transport } from './transport';
+
+/**
+ * In-memory transport hub: several sync engines in one process talk through it
+ * as if they were on the same network. Messages are delivered asynchronously
+ * (like datagrams) and copied, so no engine ever sees another's buffers.
+ */
+export interface MemoryHub {
+  /** Create a transport reachable at the given address */
+  createTransport(address: string): Transport;
+  /** Addresses of the transports currently started */
+  getAddresses(): string[];
+}
+
+export interface MemoryHubOptions {
+  /**
+   * Decide the fate of a message between two addresses: one delay (ms) per copy
+   * that arrives. Return [] to drop it, two delays to duplicate it, random delays
+   * to reorder. Defaults to immediate delivery of exactly one copy.
+   */
+  route?: (from: string, to: string, data: Uint8Array) => number[];
+  /** Time source for the delivery delays (defaults to the system clock) */
+  clock?: Clock;
+}
+
+export function createMemoryHub(options: MemoryHubOptions = {}): MemoryHub {
+  const route = options.route ?? (() => [0]);
+  const clock = options.clock ?? systemClock;
+
+  // Started transports (address -> their message handlers)
+  const members: Map<string, Set<MessageHandler>> = new Map();
+
+  const deliver = (from: string, to: string, data: Uint8Array) => {
+    for (const delay of route(from, to, data)) {
+      const copy = data.slice();
+      clock.setTimeout(() => {
+        const handlers = members.get(to);
+        if (!handlers) return; // Like UDP: nobody listening, the message is lost
+        handlers.forEach((handler) => handler(copy, { address: from }));
+      }, delay);
+    }
+  };
+
+  return {
+    createTransport(address: string): Transport {
+      const handlers: Set<MessageHandler> = new Set();
+
+      return {
+        async start() {
+          if (members.has(address) && members.get(address) !== handlers) {
+            throw new Error(`Address ${address} is already in use on this hub`);
+          }
+          members.set(address, handlers);
+        },
+
+        stop() {
+          if (members.get(address) === handlers) {
+            members.delete(address);
+          }
+        },
+
+        async send(data: Uint8Array, to: string) {
+          if (members.get(address) !== handlers) {
+            throw new Error('Transport not started');
+          }
+          deliver(address, to, data);
+        },
+
+        async broadcast(data: Uint8Array) {
+          if (members.get(address) !== handlers) {
+            throw new Error('Transport not started');
+          }
+          for (const to of members.keys()) {
+            if (to !== address) deliver(address, to, data);
+          }
+        },
+
+        onMessage(handler: MessageHandler) {
+          handlers.add(handler);
+          return () => handlers.delete(handler);
+        },
+
+        getLocalAddress() {
+          return address;
+        },
+      };
+    },
+
+    getAddresses() {
+      return Array.from(members.keys());
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { LwwStamp } from './lww';
+import { LocalState, ScanEvent, ScanTombstone } from './types';
+
+/**
+ * Merkle digest of the scan log, used for state reconciliation.
+ *
+ * The tree has three levels:
+ *   root  = H(qrCode:qrHash, ...)         sorted by QR code
+ *   qr    = H(date:bucketHash, ...)        sorted by date
+ *   bucket = H(scanId, ...)                sorted scanIds of one QR code on one date
+ *
+ * Two devices compare roots first, then QR nodes, then date buckets, so only the
+ * scans of buckets that actually differ have to be exchanged.
+ */
+export interface MerkleTree {
+  root: string;
+  qrNodes: Record<string, string>; // qrCode -> hash
+  bucketNodes: Record<string, Record<string, string>>; // qrCode -> date -> hash
+}
+
+const EMPTY_HASH = hash('');
+
+function hash(data: string): string {
+  return bytesToHex(sha256(utf8ToBytes(data)));
+}
+
+function hashChildren(children: Record<string, string>): string {
+  const keys = Object.keys(children).sort();
+  if (keys.length === 0) return EMPTY_HASH;
+  return hash(keys.map((key) => `${key}:${children[key]}`).join('\n'));
+}
+
+/**
+ * Build the Merkle tree for a local state. QR codes without scans are left out,
+ * so a device that has never seen a pass hashes the same as one holding an empty entry.
+ */
+export function buildMerkleTree(state: LocalState): MerkleTree {
+  const qrNodes: Record<string, string> = {};
+  const bucketNodes: Record<string, Record<string, string>> = {};
+
+  for (const qrCode in state) {
+    const scanIdsByDate: Record<string, string[]> = {};
+    for (const scan of state[qrCode].scans) {
+      (scanIdsByDate[scan.date] ||= []).push(scan.scanId);
+    }
+    // Tombstones are part of the bucket, so devices that disagree only on a void still differ
+    for (const tombstone of state[qrCode].tombstones || []) {
+      (scanIdsByDate[tombstone.date] ||= []).push(`void:${tombstone.scanId}`);
+    }
+
+    const dates = Object.keys(scanIdsByDate);
+    if (dates.length === 0) continue;
+
+    const buckets: Record<string, string> = {};
+    for (const date of dates) {
+      buckets[date] = hash(scanIdsByDate[date].sort().join('\n'));
+    }
+
+    bucketNodes[qrCode] = buckets;
+    qrNodes[qrCode] = hashChildren(buckets);
+  }
+
+  return {
+    root: hashChildren(qrNodes),
+    qrNodes,
+    bucketNodes,
+  };
+}
+
+/**
+ * Digest of last-writer-wins records per QR code (e.g. pass revocations and
+ * definitions), grouped by kind. Two devices hash the same when they keep the
+ * same winning write for every record.
+ */
+export function hashRecords(kinds: Record<string, (LwwStamp & { qrCode: string })[]>): string {
+  const lines: string[] = [];
+  for (const kind in kinds) {
+    for (const record of kinds[kind]) {
+      lines.push(
+        `${kind}:${record.qrCode}:${record.deviceId}:${record.hlc.wallTime}:${record.hlc.counter}`
+      );
+    }
+  }
+  return lines.length === 0 ? EMPTY_HASH : hash(lines.sort().join('\n'));
+}
+
+/**
+ * Keys whose hashes differ between two levels of the tree, including keys
+ * that exist on only one side.
+ */
+export function diffNodes(ours: Record<string, string>, theirs: Record<string, string>): string[] {
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+  return Array.from(keys)
+    .filter((key) => ours[key] !== theirs[key])
+    .sort();
+}
+
+/**
+ * Bucket key used on the wire ("qrCode|date")
+ */
+export function bucketKey(qrCode: string, date: string): string {
+  return `${qrCode}|${date}`;
+}
+
+export function parseBucketKey(key: string): { qrCode: string; date: string } {
+  const separator = key.lastIndexOf('|');
+  return { qrCode: key.slice(0, separator), date: key.slice(separator + 1) };
+}
+
+/**
+ * Collect the tombstones that fall into the given buckets
+ */
+export function getTombstonesInBuckets(state: LocalState, keys: string[]): ScanTombstone[] {
+  const tombstones: ScanTombstone[] = [];
+
+  for (const key of keys) {
+    const { qrCode, date } = parseBucketKey(key);
+    const pass = state[qrCode];
+    if (!pass?.tombstones) continue;
+    tombstones.push(...pass.tombstones.filter((tombstone) => tombstone.date === date));
+  }
+
+  return tombstones;
+}
+
+/**
+ * Collect the scans that fall into the given buckets
+ */
+export function getScansInBuckets(state: LocalState, keys: string[]): ScanEvent[] {
+  const scans: ScanEvent[] = [];
+
+  for (const key of keys) {
+    const { qrCode, date } = parseBucketKey(key);
+    const pass = state[qrCode];
+    if (!pass) continue;
+    scans.push(...pass.scans.filter((scan) => scan.date === date));
+  }
+
+  return scans;
+}
@@ -1,6 +1,9 @@
 import { Platform } from "react-native";
 import dgram from "react-native-udp";
-import { serviceEvents } from "./events";
+import * as Crypto from "expo-crypto";
+import * as Network from "expo-network";
+import NetInfo, { NetInfoState, NetInfoStateType } from "@react-native-community/netinfo";
+import { MessageHandler, Transport } from "./transport";
 
 type UDPSocket = ReturnType<typeof dgram.createSocket>;
 
@@ -14,8 +17,96 @@ interface RemoteInfo {
 export const PORT = 43210;
 export let BROADCAST_ADDR = "255.255.255.255";
 
+// ------------------------------------------------------------------
+// Discovery
+//
+// Discovery messages (and state requests) go to an IPv4 multicast group.
+// Many venue access points block or rate-limit broadcast but forward
+// multicast. The subnet broadcast address is the fallback: used when the
+// group could not be joined or a multicast send fails. Networks that drop
+// multicast instead can turn on sending to both (receivers drop the
+// second copy like any other duplicate).
+//
+// The default group is in the organisation-local scope (239.255.0.0/16),
+// which routers do not forward off-site.
+// ------------------------------------------------------------------
+export const DEFAULT_MULTICAST_GROUP = "239.255.43.210";
+
+// The group to join (null: subnet broadcast only)
+let multicastGroup: string | null = DEFAULT_MULTICAST_GROUP;
+
+// The group the socket has joined, if any
+let joinedGroup: string | null = null;
+
+// Also send to the broadcast address when the group was joined
+let alsoBroadcast = false;
+
+// ------------------------------------------------------------------
+// Fragmentation
+//
+// Messages larger than MAX_DATAGRAM_SIZE are split into numbered
+// fragments. Each fragment datagram starts with FRAGMENT_MAGIC, which no
+// regular message starts with ("{" for JSON, the protocol version for
+// binary frames, AUTH_MAGIC or ENCRYPTION_MAGIC), followed by:
+//
+//   data:    [magic][0][id: 8 bytes][index: u16][count: u16][payload]
+//   request: [magic][1][id: 8 bytes][n: u16][missing index: u16] * n
+//
+// The receiver reassembles fragments per (sender address, id), asks the
+// sender for missing fragments after a short gap, and gives up after
+// REASSEMBLY_TIMEOUT_MS. Senders keep their fragments for
+// SENT_FRAGMENT_TTL_MS so they can answer those requests.
+//
+// Messages are at most MAX_MESSAGE_SIZE bytes. A fragment claiming a
+// larger message (or a fragment larger than MAX_DATAGRAM_SIZE) is dropped
+// before anything is allocated for it, as is a re-request listing more
+// indices than the datagram holds. At most MAX_PARTIALS_PER_SOURCE
+// messages per sender and MAX_PARTIALS in total are reassembled at once;
+// a new one over either limit pushes out the oldest.
+// ------------------------------------------------------------------
+export const MAX_DATAGRAM_SIZE = 1200;
+const FRAGMENT_MAGIC = 0xf7;
+const FRAGMENT_DATA = 0;
+const FRAGMENT_REQUEST = 1;
+const FRAGMENT_ID_SIZE = 8;
+const FRAGMENT_HEADER_SIZE = 2 + FRAGMENT_ID_SIZE + 4;
+const FRAGMENT_PAYLOAD_SIZE = MAX_DATAGRAM_SIZE - FRAGMENT_HEADER_SIZE;
+const MAX_MESSAGE_SIZE = 4 * 1024 * 1024; // A full state of tens of thousands of scans fits
+const MAX_FRAGMENTS = Math.ceil(MAX_MESSAGE_SIZE / FRAGMENT_PAYLOAD_SIZE);
+
+const REASSEMBLY_GAP_MS = 500;          // Silence before asking for missing fragments
+const REASSEMBLY_TIMEOUT_MS = 10000;    // Drop incomplete messages after this
+const MAX_FRAGMENT_REQUESTS = 5;
+const SENT_FRAGMENT_TTL_MS = 30000;
+const MAX_PARTIALS_PER_SOURCE = 8;
+const MAX_PARTIALS = 64;
+const FRAGMENT_SWEEP_MS = 250;
+
+interface PartialMessage {
+  chunks: (Uint8Array | undefined)[];
+  received: number;
+  rinfo: RemoteInfo;
+  firstSeen: number;
+  lastActivity: number;
+  requests: number;
+}
+
+// Incomplete incoming messages ("address:id" -> partial)
+const partialMessages: Map<string, PartialMessage> = new Map();
+
+// Recently sent fragments, kept for re-requests (id -> fragments)
+const sentFragments: Map<string, { datagrams: Uint8Array[]; sentAt: number }> = new Map();
+
+let fragmentSweepInterval: ReturnType<typeof setInterval> | null = null;
+
 let socket: UDPSocket | null = null;
 
+// Our IP address on the local network (null until detected)
+let localAddress: string | null = null;
+
+// Handlers for complete incoming messages (after reassembly)
+const messageHandlers: Set<MessageHandler> = new Set();
+
 /**
  * Initialise the UDP socket.
  * Call this **once** from a `useEffect` (client) or at server start.
@@ -60,7 +151,10 @@ export async function initSocket(): Promise<UDPSocket> {
         console.warn("setBroadcast failed (some environments ignore it)", e);
       }
 
+      joinMulticastGroup(newSocket);
+
       socket = newSocket;
+      startFragmentSweep();
       resolve(newSocket);
     });
 
@@ -70,13 +164,18 @@ export async function initSocket(): Promise<UDPSocket> {
     });
 
     // ----------------------------------------------------------------
-    // 4. Message handling - emit string for CRDT processing
+    // 4. Message handling - emit raw bytes for CRDT processing
     // ----------------------------------------------------------------
     newSocket.on("message", (msg: Buffer, rinfo: RemoteInfo) => {
       try {
-        const messageStr = msg.toString();
-        // Emit the string directly (will be parsed in state.ts)
-        serviceEvents.emit("message", messageStr, rinfo);
+        const data = new Uint8Array(msg);
+
+        if (data.length > 0 && data[0] === FRAGMENT_MAGIC) {
+          handleFragmentDatagram(data, rinfo);
+          return;
+        }
+
+        deliverMessage(data, rinfo);
       } catch (e) {
         console.error("Error processing UDP message:", e);
       }
@@ -95,51 +194,69 @@ export async function initSocket(): Promise<UDPSocket> {
 }
 
 /**
- * Send data to the current broadcast address.
- * @param data - The data to send (string or Buffer/Uint8Array)
+ * Send data to the multicast group, or to the current broadcast address if the
+ * group was not joined or the multicast send failed (and also when alsoBroadcast is on).
+ * Large messages are split into fragments automatically.
+ * @param message - The (already signed and encrypted) message bytes
  * @returns Promise that resolves when broadcast is sent
  */
-export function sendDelta(data: string | Uint8Array): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (!socket) {
-      console.warn("Socket not initialised – call initSocket() first");
-      reject(new Error("Socket not initialized"));
-      return;
-    }
+export async function sendDelta(message: Uint8Array): Promise<void> {
+  const datagrams = toDatagrams(message);
+  let sentToGroup = false;
 
-    // Convert string to Uint8Array if needed
-    const message =
-      typeof data === "string" ? new TextEncoder().encode(data) : data;
+  if (joinedGroup) {
+    console.log(`🌐 [NETWORK] Multicasting to ${joinedGroup}:${PORT}, size: ${message.length} bytes`);
+    try {
+      for (const datagram of datagrams) {
+        await sendDatagram(datagram, joinedGroup);
+      }
+      sentToGroup = true;
+    } catch (err) {
+      console.warn(`⚠️  [NETWORK] Multicast to ${joinedGroup} failed, falling back to broadcast:`, err);
+    }
+  }
 
+  if (!sentToGroup || alsoBroadcast) {
     console.log(`🌐 [NETWORK] Broadcasting to ${BROADCAST_ADDR}:${PORT}, size: ${message.length} bytes`);
-
-    // Send the message
-    socket.send(
-      message,
-      0,
-      message.length,
-      PORT,
-      BROADCAST_ADDR,
-      (err?: Error | null) => {
-        if (err) {
-          console.error("❌ [NETWORK] Broadcast failed:", err);
-          reject(err);
-        } else {
-          console.log(`✅ [NETWORK] Broadcast sent successfully to ${BROADCAST_ADDR}:${PORT}`);
-          resolve();
-        }
-      },
-    );
-  });
+    try {
+      for (const datagram of datagrams) {
+        await sendDatagram(datagram, BROADCAST_ADDR);
+      }
+    } catch (err) {
+      if (!sentToGroup) throw err;
+      console.warn(`⚠️  [NETWORK] Broadcast to ${BROADCAST_ADDR} failed (multicast went out):`, err);
+    }
+  }
+  console.log(`✅ [NETWORK] Broadcast sent successfully`);
 }
 
 /**
  * Send data to a specific peer (unicast).
- * @param data - The data to send (string or Buffer/Uint8Array)
+ * Large messages are split into fragments automatically.
+ * @param message - The (already signed and encrypted) message bytes
  * @param peerAddress - The IP address of the peer
  * @returns Promise that resolves when message is sent
  */
-export function sendDeltaToPeer(data: string | Uint8Array, peerAddress: string): Promise<void> {
+export async function sendDeltaToPeer(message: Uint8Array, peerAddress: string): Promise<void> {
+  console.log(`🎯 [NETWORK] Unicasting to ${peerAddress}:${PORT}, size: ${message.length} bytes`);
+
+  for (const datagram of toDatagrams(message)) {
+    await sendDatagram(datagram, peerAddress);
+  }
+  console.log(`✅ [NETWORK] Unicast sent successfully to ${peerAddress}:${PORT}`);
+}
+
+/**
+ * Hand a complete incoming message to the sync layer (decrypted and decoded there)
+ */
+function deliverMessage(data: Uint8Array, rinfo: RemoteInfo) {
+  messageHandlers.forEach(handler => handler(data, rinfo));
+}
+
+/**
+ * Send a single datagram
+ */
+function sendDatagram(datagram: Uint8Array, address: string): Promise<void> {
   return new Promise((resolve, reject) => {
     if (!socket) {
       console.warn("Socket not initialised – call initSocket() first");
@@ -147,25 +264,17 @@ export function sendDeltaToPeer(data: string | Uint8Array, peerAddress: string):
       return;
     }
 
-    // Convert string to Uint8Array if needed
-    const message =
-      typeof data === "string" ? new TextEncoder().encode(data) : data;
-
-    console.log(`🎯 [NETWORK] Unicasting to ${peerAddress}:${PORT}, size: ${message.length} bytes`);
-
-    // Send the message to specific peer
     socket.send(
-      message,
+      datagram,
       0,
-      message.length,
+      datagram.length,
       PORT,
-      peerAddress,
+      address,
       (err?: Error | null) => {
         if (err) {
-          console.error(`❌ [NETWORK] Unicast to ${peerAddress} failed:`, err);
+          console.error(`❌ [NETWORK] Send to ${address} failed:`, err);
           reject(err);
         } else {
-          console.log(`✅ [NETWORK] Unicast sent successfully to ${peerAddress}:${PORT}`);
           resolve();
         }
       },
@@ -173,6 +282,271 @@ export function sendDeltaToPeer(data: string | Uint8Array, peerAddress: string):
   });
 }
 
+/**
+ * Split a message into fragment datagrams if it does not fit into one datagram
+ */
+function toDatagrams(message: Uint8Array): Uint8Array[] {
+  if (message.length <= MAX_DATAGRAM_SIZE) {
+    return [message];
+  }
+
+  const count = Math.ceil(message.length / FRAGMENT_PAYLOAD_SIZE);
+  if (count > MAX_FRAGMENTS) {
+    throw new Error(`Message too large to fragment (${message.length} bytes)`);
+  }
+
+  const id = Crypto.getRandomBytes(FRAGMENT_ID_SIZE);
+  const datagrams: Uint8Array[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const payload = message.subarray(index * FRAGMENT_PAYLOAD_SIZE, (index + 1) * FRAGMENT_PAYLOAD_SIZE);
+    const datagram = new Uint8Array(FRAGMENT_HEADER_SIZE + payload.length);
+    const view = new DataView(datagram.buffer);
+
+    datagram[0] = FRAGMENT_MAGIC;
+    datagram[1] = FRAGMENT_DATA;
+    datagram.set(id, 2);
+    view.setUint16(2 + FRAGMENT_ID_SIZE, index);
+    view.setUint16(4 + FRAGMENT_ID_SIZE, count);
+    datagram.set(payload, FRAGMENT_HEADER_SIZE);
+
+    datagrams.push(datagram);
+  }
+
+  sentFragments.set(toHex(id), { datagrams, sentAt: Date.now() });
+  console.log(`🧩 [NETWORK] Split ${message.length} bytes into ${count} fragments`);
+
+  return datagrams;
+}
+
+/**
+ * Handle an incoming fragment or fragment re-request
+ */
+function handleFragmentDatagram(datagram: Uint8Array, rinfo: RemoteInfo) {
+  if (datagram.length < FRAGMENT_HEADER_SIZE - 2) return;
+
+  const view = new DataView(datagram.buffer, datagram.byteOffset, datagram.byteLength);
+  const id = toHex(datagram.subarray(2, 2 + FRAGMENT_ID_SIZE));
+
+  if (datagram[1] === FRAGMENT_REQUEST) {
+    const sent = sentFragments.get(id);
+    if (!sent) return;
+
+    const missingCount = view.getUint16(2 + FRAGMENT_ID_SIZE);
+    if (missingCount > (datagram.length - 4 - FRAGMENT_ID_SIZE) / 2) {
+      console.warn(`⚠️  [NETWORK] Dropping malformed fragment request from ${rinfo.address} (${missingCount} indices)`);
+      return;
+    }
+    console.log(`🧩 [NETWORK] ${rinfo.address} re-requested ${missingCount} fragments of ${id}`);
+
+    for (let i = 0; i < missingCount; i++) {
+      const index = view.getUint16(4 + FRAGMENT_ID_SIZE + i * 2);
+      const fragment = sent.datagrams[index];
+      if (fragment) {
+        sendDatagram(fragment, rinfo.address).catch(err => {
+          console.error(`❌ [NETWORK] Failed to resend fragment ${index} of ${id}:`, err);
+        });
+      }
+    }
+    return;
+  }
+
+  if (datagram.length < FRAGMENT_HEADER_SIZE || datagram.length > MAX_DATAGRAM_SIZE) return;
+
+  const index = view.getUint16(2 + FRAGMENT_ID_SIZE);
+  const count = view.getUint16(4 + FRAGMENT_ID_SIZE);
+  if (count === 0 || index >= count) return;
+  if (count > MAX_FRAGMENTS) {
+    console.warn(`⚠️  [NETWORK] Dropping fragment from ${rinfo.address}: ${count} fragments is over the limit of ${MAX_FRAGMENTS}`);
+    return;
+  }
+
+  const key = `${rinfo.address}:${id}`;
+  const now = Date.now();
+  let partial = partialMessages.get(key);
+
+  if (!partial) {
+    makeRoomForPartial(rinfo.address);
+    partial = {
+      chunks: new Array(count),
+      received: 0,
+      rinfo,
+      firstSeen: now,
+      lastActivity: now,
+      requests: 0,
+    };
+    partialMessages.set(key, partial);
+  }
+
+  if (partial.chunks.length !== count || partial.chunks[index]) return;
+
+  partial.chunks[index] = datagram.slice(FRAGMENT_HEADER_SIZE);
+  partial.received++;
+  partial.lastActivity = now;
+
+  if (partial.received < count) return;
+
+  // All fragments are here - reassemble and hand over like a regular message
+  partialMessages.delete(key);
+
+  const totalSize = partial.chunks.reduce((sum, chunk) => sum + chunk!.length, 0);
+  const message = new Uint8Array(totalSize);
+  let offset = 0;
+  for (const chunk of partial.chunks) {
+    message.set(chunk!, offset);
+    offset += chunk!.length;
+  }
+
+  console.log(`🧩 [NETWORK] Reassembled ${count} fragments (${totalSize} bytes) from ${rinfo.address}`);
+  deliverMessage(message, partial.rinfo);
+}
+
+/**
+ * Drop the oldest incomplete messages so one more from this address stays
+ * within MAX_PARTIALS_PER_SOURCE and MAX_PARTIALS
+ */
+function makeRoomForPartial(address: string) {
+  // Map order is insertion order, so the first entries are the oldest
+  const fromSource = [...partialMessages.entries()].filter(([, partial]) => partial.rinfo.address === address);
+  const overSource = fromSource.length - MAX_PARTIALS_PER_SOURCE + 1;
+  for (const [key] of fromSource.slice(0, Math.max(0, overSource))) {
+    partialMessages.delete(key);
+  }
+
+  const overTotal = partialMessages.size - MAX_PARTIALS + 1;
+  for (const key of [...partialMessages.keys()].slice(0, Math.max(0, overTotal))) {
+    partialMessages.delete(key);
+  }
+
+  if (overSource > 0 || overTotal > 0) {
+    console.warn(`⚠️  [NETWORK] Too many incomplete messages, dropped the oldest to make room for one from ${address}`);
+  }
+}
+
+/**
+ * Ask the sender for fragments that have not arrived yet
+ */
+function requestMissingFragments(key: string, partial: PartialMessage) {
+  const missing: number[] = [];
+  for (let index = 0; index < partial.chunks.length; index++) {
+    if (!partial.chunks[index]) missing.push(index);
+  }
+
+  // Keep requests inside one datagram; the rest is asked for next round
+  const maxIndices = Math.floor((MAX_DATAGRAM_SIZE - FRAGMENT_HEADER_SIZE) / 2);
+  const indices = missing.slice(0, maxIndices);
+
+  const request = new Uint8Array(2 + FRAGMENT_ID_SIZE + 2 + indices.length * 2);
+  const view = new DataView(request.buffer);
+  request[0] = FRAGMENT_MAGIC;
+  request[1] = FRAGMENT_REQUEST;
+  request.set(fromHex(key.slice(key.lastIndexOf(":") + 1)), 2);
+  view.setUint16(2 + FRAGMENT_ID_SIZE, indices.length);
+  indices.forEach((index, i) => view.setUint16(4 + FRAGMENT_ID_SIZE + i * 2, index));
+
+  partial.requests++;
+  partial.lastActivity = Date.now();
+
+  console.log(`🧩 [NETWORK] Requesting ${indices.length} missing fragments from ${partial.rinfo.address} (request ${partial.requests}/${MAX_FRAGMENT_REQUESTS})`);
+  sendDatagram(request, partial.rinfo.address).catch(err => {
+    console.error(`❌ [NETWORK] Failed to request missing fragments:`, err);
+  });
+}
+
+/**
+ * Periodically re-request missing fragments and expire stale buffers
+ */
+function startFragmentSweep() {
+  if (fragmentSweepInterval) return;
+
+  fragmentSweepInterval = setInterval(() => {
+    const now = Date.now();
+
+    for (const [key, partial] of partialMessages.entries()) {
+      const idle = now - partial.lastActivity > REASSEMBLY_GAP_MS;
+
+      if (now - partial.firstSeen > REASSEMBLY_TIMEOUT_MS || (idle && partial.requests >= MAX_FRAGMENT_REQUESTS)) {
+        console.warn(`⚠️  [NETWORK] Dropping incomplete message from ${partial.rinfo.address} (${partial.received}/${partial.chunks.length} fragments)`);
+        partialMessages.delete(key);
+      } else if (idle) {
+        requestMissingFragments(key, partial);
+      }
+    }
+
+    for (const [id, sent] of sentFragments.entries()) {
+      if (now - sent.sentAt > SENT_FRAGMENT_TTL_MS) {
+        sentFragments.delete(id);
+      }
+    }
+  }, FRAGMENT_SWEEP_MS);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Whether an IPv4 address is a multicast group (224.0.0.0/4)
+ */
+export function isMulticastAddress(addr: string): boolean {
+  const ip = parseIPv4(addr);
+  return ip !== null && ip >>> 28 === 0xe;
+}
+
+/**
+ * Join the configured multicast group on a bound socket
+ */
+function joinMulticastGroup(sock: UDPSocket) {
+  if (!multicastGroup) return;
+
+  try {
+    sock.addMembership(multicastGroup);
+    joinedGroup = multicastGroup;
+    console.log(`✅ [NETWORK] Joined multicast group ${multicastGroup}`);
+  } catch (e) {
+    console.warn(`⚠️  [NETWORK] Failed to join multicast group ${multicastGroup}, using broadcast only:`, e);
+  }
+}
+
+/**
+ * Change the multicast group used for discovery (null: subnet broadcast only).
+ * Takes effect immediately if the socket is open.
+ */
+export function setMulticastGroup(group: string | null) {
+  if (group !== null && !isMulticastAddress(group)) {
+    throw new Error(`Not an IPv4 multicast address: ${group}`);
+  }
+  if (group === multicastGroup) return;
+
+  if (socket && joinedGroup) {
+    try {
+      socket.dropMembership(joinedGroup);
+    } catch (e) {
+      console.warn(`⚠️  [NETWORK] Failed to leave multicast group ${joinedGroup}:`, e);
+    }
+  }
+  joinedGroup = null;
+  multicastGroup = group;
+
+  if (socket) joinMulticastGroup(socket);
+}
+
+/**
+ * Send discovery to the broadcast address as well as the multicast group
+ * (for networks that drop multicast; peers receive every message twice)
+ */
+export function setAlsoBroadcast(enabled: boolean) {
+  alsoBroadcast = enabled;
+}
+
 /**
  * Change broadcast target (useful for directed broadcasts).
  */
@@ -180,12 +554,260 @@ export function setBroadcastAddr(addr: string) {
   BROADCAST_ADDR = addr;
 }
 
+// ------------------------------------------------------------------
+// Network interface
+//
+// The broadcast address is worked out from the Wi-Fi (or Ethernet)
+// interface's own address and netmask, as reported by NetInfo. When the
+// phone moves to another network the address is worked out again, the
+// socket is rebound if our address changed, and the sync layer is told
+// so it can restart discovery.
+// ------------------------------------------------------------------
+const FALLBACK_NETMASK = "255.255.255.0";
+const SOCKET_CLOSE_TIMEOUT_MS = 2000;
+
+interface NetworkInterface {
+  address: string;
+  netmask: string;
+}
+
+// Handlers for changes of our address (null: no network)
+const networkChangeHandlers: Set<(address: string | null) => void> = new Set();
+
+let unsubscribeNetInfo: (() => void) | null = null;
+
+// Network changes are handled one at a time, in order
+let networkRefresh: Promise<void> = Promise.resolve();
+
+function parseIPv4(addr: string): number | null {
+  const parts = addr.split(".").map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isInteger(part) || part < 0 || part > 255)) {
+    return null;
+  }
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+
+function formatIPv4(value: number): string {
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].join(".");
+}
+
+/**
+ * The directed broadcast address of the subnet an address is on
+ * (192.168.4.17 with 255.255.252.0 -> 192.168.7.255), or null if either is invalid
+ */
+export function broadcastAddressFor(address: string, netmask: string): string | null {
+  const ip = parseIPv4(address);
+  const mask = parseIPv4(netmask);
+  if (ip === null || mask === null) return null;
+
+  return formatIPv4((ip | ~mask) >>> 0);
+}
+
+/**
+ * Our interface from a NetInfo state (Wi-Fi and Ethernet report address and netmask)
+ */
+function interfaceFromNetInfo(state: NetInfoState): NetworkInterface | null {
+  if (state.type !== NetInfoStateType.wifi && state.type !== NetInfoStateType.ethernet) return null;
+  if (!state.isConnected || !state.details) return null;
+
+  const { ipAddress, subnet } = state.details;
+  if (!ipAddress || ipAddress === "0.0.0.0" || parseIPv4(ipAddress) === null) return null;
+
+  if (!subnet || parseIPv4(subnet) === null) {
+    console.warn(`⚠️  [NETWORK] No netmask reported for ${ipAddress}, assuming ${FALLBACK_NETMASK}`);
+    return { address: ipAddress, netmask: FALLBACK_NETMASK };
+  }
+  return { address: ipAddress, netmask: subnet };
+}
+
+/**
+ * Find our interface, falling back to expo-network's address (and a /24 guess)
+ * when NetInfo has no details, e.g. on a phone sharing its own hotspot
+ */
+async function detectNetworkInterface(state?: NetInfoState): Promise<NetworkInterface | null> {
+  try {
+    const found = interfaceFromNetInfo(state ?? (await NetInfo.fetch()));
+    if (found) return found;
+  } catch (e) {
+    console.warn("⚠️  [NETWORK] NetInfo unavailable:", e);
+  }
+
+  try {
+    const ip = await Network.getIpAddressAsync();
+    console.log(`🌐 [NETWORK] Device IP from expo-network: ${ip}`);
+
+    if (ip && ip !== "0.0.0.0" && parseIPv4(ip) !== null) {
+      console.warn(`⚠️  [NETWORK] Netmask unknown for ${ip}, assuming ${FALLBACK_NETMASK}`);
+      return { address: ip, netmask: FALLBACK_NETMASK };
+    }
+  } catch (ipError) {
+    console.warn("Failed to get IP address, using fallback:", ipError);
+  }
+  return null;
+}
+
+/**
+ * Use an interface's address and subnet broadcast address (global broadcast if none)
+ */
+function applyNetworkInterface(found: NetworkInterface | null) {
+  const broadcastAddr = found && broadcastAddressFor(found.address, found.netmask);
+
+  if (found && broadcastAddr) {
+    localAddress = found.address;
+    setBroadcastAddr(broadcastAddr);
+    console.log(`✅ [NETWORK] Calculated broadcast address: ${broadcastAddr} (from IP: ${found.address}, netmask: ${found.netmask})`);
+  } else {
+    localAddress = null;
+    setBroadcastAddr("255.255.255.255");
+    console.warn("⚠️  [NETWORK] No valid IP detected, using global broadcast: 255.255.255.255");
+  }
+}
+
+/**
+ * Detect our IP address and broadcast to our subnet rather than everywhere
+ */
+async function detectBroadcastAddress() {
+  applyNetworkInterface(await detectNetworkInterface());
+}
+
+/**
+ * Close the socket and bind a new one, keeping message handlers and fragments
+ */
+async function rebindSocket() {
+  const oldSocket = socket;
+  socket = null;
+  joinedGroup = null;
+
+  if (oldSocket) {
+    // A failed native close emits "error" and never "close": settle on either, or give up waiting
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        console.warn(`⚠️  [NETWORK] Old socket did not close within ${SOCKET_CLOSE_TIMEOUT_MS}ms, binding anyway`);
+        resolve();
+      }, SOCKET_CLOSE_TIMEOUT_MS);
+      const done = (err?: unknown) => {
+        clearTimeout(timer);
+        if (err) console.warn("⚠️  [NETWORK] Closing the old socket failed:", err);
+        resolve();
+      };
+
+      oldSocket.once("error", done);
+      try {
+        oldSocket.close(() => done());
+      } catch (e) {
+        done(e);
+      }
+    });
+  }
+
+  // The transport may have been stopped while we waited: don't leave a socket open behind it
+  if (!unsubscribeNetInfo) return;
+  await initSocket();
+  if (!unsubscribeNetInfo) {
+    console.log("🔌 [NETWORK] Transport stopped while rebinding, closing the new socket");
+    closeSocket();
+  }
+}
+
+/**
+ * Work out our interface again after a network change. Rebinds the socket if our
+ * address changed and tells the network change handlers.
+ */
+async function handleNetworkStateChange(state: NetInfoState) {
+  const found = await detectNetworkInterface(state);
+  if (!unsubscribeNetInfo) return; // Stopped in the meantime
+  const previousAddress = localAddress;
+  const broadcastAddr = found ? broadcastAddressFor(found.address, found.netmask) : "255.255.255.255";
+
+  if ((found?.address ?? null) === previousAddress && broadcastAddr === BROADCAST_ADDR) return;
+
+  console.log(`🔄 [NETWORK] Network changed: ${previousAddress ?? "none"} -> ${found?.address ?? "none"}`);
+  applyNetworkInterface(found);
+
+  // Also after a failed rebind left us without a socket: this is the next chance to bind
+  if (localAddress !== previousAddress && localAddress !== null) {
+    try {
+      await rebindSocket();
+      console.log(`✅ [NETWORK] Socket rebound for ${localAddress}`);
+    } catch (e) {
+      console.error("❌ [NETWORK] Failed to rebind socket after network change:", e);
+    }
+  }
+
+  if (localAddress !== previousAddress) {
+    networkChangeHandlers.forEach(handler => handler(localAddress));
+  }
+}
+
+/**
+ * Follow network changes (Wi-Fi roaming, reconnects) until the socket is closed
+ */
+function watchNetworkChanges() {
+  if (unsubscribeNetInfo) return;
+
+  // NetInfo calls the listener with the current state right away; that one changes nothing
+  unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    networkRefresh = networkRefresh
+      .then(() => handleNetworkStateChange(state))
+      .catch(err => console.error("❌ [NETWORK] Error handling network change:", err));
+  });
+}
+
 /**
  * Graceful shutdown (optional, call on app quit / unmount).
  */
 export function closeSocket() {
+  unsubscribeNetInfo?.();
+  unsubscribeNetInfo = null;
+
+  if (fragmentSweepInterval) {
+    clearInterval(fragmentSweepInterval);
+    fragmentSweepInterval = null;
+  }
+  partialMessages.clear();
+  sentFragments.clear();
+
   if (socket) {
     socket.close();
     socket = null;
   }
+  joinedGroup = null;
+}
+
+export interface UdpTransportOptions {
+  /** Multicast group for discovery (default DEFAULT_MULTICAST_GROUP; null: subnet broadcast only) */
+  multicastGroup?: string | null;
+  /** Send discovery to the subnet broadcast address too, not only when multicast fails (default false) */
+  alsoBroadcast?: boolean;
+}
+
+/**
+ * UDP transport for the sync layer (one socket per app, on PORT)
+ */
+export function createUdpTransport(options: UdpTransportOptions = {}): Transport {
+  return {
+    async start() {
+      if (options.multicastGroup !== undefined) {
+        setMulticastGroup(options.multicastGroup);
+      }
+      if (options.alsoBroadcast !== undefined) {
+        setAlsoBroadcast(options.alsoBroadcast);
+      }
+      await initSocket();
+      await detectBroadcastAddress();
+      watchNetworkChanges();
+    },
+    stop: closeSocket,
+    send: sendDeltaToPeer,
+    broadcast: sendDelta,
+    onMessage(handler: MessageHandler) {
+      messageHandlers.add(handler);
+      return () => messageHandlers.delete(handler);
+    },
+    getLocalAddress: () => localAddress,
+    onNetworkChange(handler: (address: string | null) => void) {
+      networkChangeHandlers.add(handler);
+      return () => networkChangeHandlers.delete(handler);
+    },
+  };
 }
@@ -0,0 +1,69 @@
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { ScanStore } from './store';
+import { SqliteDatabase, SqliteValue, createSqliteStore } from './storage';
+
+/**
+ * The SQLite store in Node (tools, the simulator, tests), on sql.js: the same
+ * SQLite compiled to WebAssembly, so the app's SQL runs unchanged. Databases
+ * live in memory; a store can start from an exported database.
+ */
+
+// The WebAssembly module, loaded once
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function getSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJs) sqlJs = initSqlJs();
+  return sqlJs;
+}
+
+export class SqlJsDatabase implements SqliteDatabase {
+  constructor(readonly db: Database) {}
+
+  async execAsync(source: string): Promise<void> {
+    this.db.exec(source);
+  }
+
+  async runAsync(source: string, params: SqliteValue[] = []): Promise<void> {
+    this.db.run(source, params);
+  }
+
+  async getAllAsync<T>(source: string, params: SqliteValue[] = []): Promise<T[]> {
+    const statement = this.db.prepare(source);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async getFirstAsync<T>(source: string, params: SqliteValue[] = []): Promise<T | null> {
+    const rows = await this.getAllAsync<T>(source, params);
+    return rows[0] ?? null;
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this.db.exec('BEGIN');
+    try {
+      await task();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Open a new in-memory sql.js database, optionally from an exported one
+ */
+export async function openNodeSqliteDatabase(data?: Uint8Array): Promise<SqlJsDatabase> {
+  const SQL = await getSqlJs();
+  return new SqlJsDatabase(new SQL.Database(data));
+}
+
+export function createNodeSqliteStore(data?: Uint8Array): ScanStore {
+  return createSqliteStore(() => openNodeSqliteDatabase(data));
+}
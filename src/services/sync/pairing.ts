@@ -0,0 +1,60 @@
+import { EventEnrollment } from './types';
+
+/**
+ * Pairing QR payload shown by an admin device and scanned by new scanners:
+ *
+ *   SCANNER-PAIR:1:{"eventId":"...","key":"...","configVersion":0}
+ *
+ * The prefix keeps pairing codes from ever being mistaken for a pass.
+ */
+const PAIRING_PREFIX = 'SCANNER-PAIR:1:';
+
+/**
+ * Key ids are a single byte on the wire
+ */
+export const MAX_CONFIG_VERSION = 255;
+
+/**
+ * Encode an enrollment as pairing QR content
+ */
+export function encodePairingPayload(enrollment: EventEnrollment): string {
+  return PAIRING_PREFIX + JSON.stringify(enrollment);
+}
+
+/**
+ * Whether scanned QR content is a pairing code (rather than a pass)
+ */
+export function isPairingPayload(data: string): boolean {
+  return data.startsWith(PAIRING_PREFIX);
+}
+
+/**
+ * Parse pairing QR content. Returns null if it isn't a valid pairing code.
+ */
+export function parsePairingPayload(data: string): EventEnrollment | null {
+  if (!isPairingPayload(data)) return null;
+
+  try {
+    const parsed = JSON.parse(data.slice(PAIRING_PREFIX.length));
+
+    if (
+      typeof parsed.eventId !== 'string' ||
+      parsed.eventId.length === 0 ||
+      typeof parsed.key !== 'string' ||
+      parsed.key.length < 32 ||
+      !Number.isInteger(parsed.configVersion) ||
+      parsed.configVersion < 0 ||
+      parsed.configVersion > MAX_CONFIG_VERSION
+    ) {
+      return null;
+    }
+
+    return {
+      eventId: parsed.eventId,
+      key: parsed.key,
+      configVersion: parsed.configVersion,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+import { SyncEngine } from './engine';
+import { ScanEvent, ScanValidationResult } from './types';
+import { getTodayKey } from './utils';
+
+/**
+ * Scan handling on top of a sync engine: the pass rules and recording accepted
+ * scans. The app has one for its engine (state.ts); the simulator and tests
+ * make one per engine.
+ */
+export interface Scanner {
+  /** Check a scan against the rules without recording it */
+  validateScan(qrCode: string): Promise<ScanValidationResult>;
+  /** Validate a scanned QR code and record it if it is allowed */
+  handleScannedQRCode(scannedData: string): Promise<ScanValidationResult>;
+}
+
+export function createScanner(engine: SyncEngine): Scanner {
+  // QR codes with a scan being handled (the promise settles once it's done)
+  const scansInProgress: Map<string, Promise<void>> = new Map();
+
+  /**
+   * The scan rules, given the pass's scans today (voided scans excluded)
+   */
+  const checkScan = (
+    qrCode: string,
+    today: string,
+    todayScans: ScanEvent[]
+  ): ScanValidationResult => {
+    // Check if the QR code is a known pass (from qr_config.json or added during the event)
+    const definition = engine.getPassDefinition(qrCode);
+
+    if (!definition) {
+      return {
+        allowed: false,
+        reason: 'Unknown QR code',
+      };
+    }
+
+    // Revoked passes (stolen, refunded, ...) are blocked on every device
+    const revocation = engine.getRevocation(qrCode);
+    if (revocation) {
+      return {
+        allowed: false,
+        reason: revocation.reason ? `Pass revoked: ${revocation.reason}` : 'Pass revoked',
+      };
+    }
+
+    if (!definition.allowedDates.includes(today)) {
+      return {
+        allowed: false,
+        reason: 'Pass not valid today',
+      };
+    }
+
+    // For one-use passes, check if already used today
+    if (definition.type === 'one-use') {
+      if (todayScans.length > 0) {
+        return {
+          allowed: false,
+          reason: 'One-use pass already used today',
+          todayScansCount: todayScans.length,
+        };
+      }
+    }
+
+    // Check for duplicate scan within 30 seconds (for both types).
+    // See isRecentScan: skewed peer clocks can neither open nor hold the window.
+    const recentScans = todayScans.filter((scan) => engine.isRecentScan(scan, 30 * 1000));
+
+    if (recentScans.length > 0) {
+      return {
+        allowed: false,
+        reason: 'Already scanned within the last 30 seconds',
+        todayScansCount: todayScans.length,
+      };
+    }
+
+    return {
+      allowed: true,
+      todayScansCount: todayScans.length,
+    };
+  };
+
+  const validateScan = async (qrCode: string): Promise<ScanValidationResult> => {
+    const today = getTodayKey();
+    return checkScan(qrCode, today, await engine.getScansForQROnDate(qrCode, today));
+  };
+
+  /**
+   * Run scan handling one QR code at a time: a second read of a pass is only
+   * validated once the first has been recorded or refused
+   */
+  const serializeByQRCode = <T>(qrCode: string, task: () => Promise<T>): Promise<T> => {
+    const previous = scansInProgress.get(qrCode) ?? Promise.resolve();
+    const run = previous.then(task);
+    const done = run.then(
+      () => {},
+      () => {}
+    );
+    scansInProgress.set(qrCode, done);
+    done.then(() => {
+      if (scansInProgress.get(qrCode) === done) scansInProgress.delete(qrCode);
+    });
+    return run;
+  };
+
+  const processScan = async (scannedData: string): Promise<ScanValidationResult> => {
+    // Validate the scan
+    const validation = await validateScan(scannedData);
+
+    if (!validation.allowed) {
+      console.warn(`Scan rejected for ${scannedData}: ${validation.reason}`);
+      return validation;
+    }
+
+    const today = getTodayKey();
+
+    // Strict mode: one-use passes need a peer quorum before we accept them
+    if (
+      engine.getStrictModeConfig().enabled &&
+      engine.getPassDefinition(scannedData)?.type === 'one-use'
+    ) {
+      const claim = await engine.claimPass(scannedData, today);
+      if (!claim.granted) {
+        console.warn(`Scan rejected for ${scannedData}: ${claim.reason}`);
+        return {
+          allowed: false,
+          reason: claim.reason,
+        };
+      }
+    }
+
+    // Scan is valid: check it again and add it in one transaction, so nothing
+    // recorded in the meantime (e.g. a peer's scan of the same pass) slips past
+    let result = validation;
+    try {
+      const event = await engine.recordScanEvent(scannedData, today, (todayScans) => {
+        result = checkScan(scannedData, today, todayScans);
+        return result.allowed;
+      });
+      if (!event) {
+        console.warn(`Scan rejected for ${scannedData}: ${result.reason}`);
+        return result;
+      }
+      console.log(`Scan accepted for ${scannedData}`);
+      return {
+        ...result,
+        scanId: event.scanId,
+      };
+    } catch (error) {
+      console.error('Failed to process scan:', error);
+      return {
+        allowed: false,
+        reason: 'Failed to process scan. Please try again.',
+      };
+    }
+  };
+
+  return {
+    validateScan,
+    handleScannedQRCode: (scannedData) =>
+      serializeByQRCode(scannedData, () => processScan(scannedData)),
+  };
+}
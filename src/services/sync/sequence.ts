@@ -0,0 +1,77 @@
+/**
+ * Message sequence numbers that only ever go up.
+ *
+ * Every message carries the sender's next sequence number. The counter is kept
+ * in the settings table and resumed on start, so it never goes back when the
+ * app restarts. Messages also carry runStart, the counter value the sender's
+ * current run started from. It is higher after every restart.
+ *
+ * Receivers keep a window of the numbers seen from each peer. That tells apart:
+ * - a message that arrived out of order: below the highest number seen, not seen yet
+ * - a replayed or duplicated message: seen already
+ * - a stale message: from an earlier run, or too far behind to tell
+ * - a restart: a higher runStart than the peer's current run
+ */
+
+/**
+ * Sequence numbers are reserved this many at a time, so the counter is written
+ * once per block rather than once per message. A restart skips what was left
+ * of the block.
+ */
+export const SEQUENCE_BLOCK = 100;
+
+// How far behind the highest number seen a message may arrive and still be accepted
+export const SEQUENCE_WINDOW = 256;
+
+export interface SequenceWindow {
+  runStart: number; // Where the peer's current run started
+  highest: number; // Highest sequence number seen in it
+  seen: Set<number>; // Numbers seen within the window
+}
+
+export type SequenceVerdict =
+  | 'first' // First message from the peer since we started
+  | 'next' // Newer than anything seen from the peer
+  | 'reordered' // Older than the newest, but not seen yet
+  | 'restarted' // First message of a new run of the peer
+  | 'replayed' // Seen already
+  | 'stale'; // From an earlier run, or older than the window
+
+/**
+ * Whether a message with this run and sequence number should be accepted
+ */
+export function isAccepted(verdict: SequenceVerdict): boolean {
+  return verdict !== 'replayed' && verdict !== 'stale';
+}
+
+/**
+ * Check a message against the peer's window. Accepted messages are added to the
+ * window, which is returned updated (a new one on the first message or a restart).
+ */
+export function checkSequence(
+  window: SequenceWindow | undefined,
+  runStart: number,
+  sequenceNum: number
+): { verdict: SequenceVerdict; window: SequenceWindow } {
+  const fresh = (): SequenceWindow => ({
+    runStart,
+    highest: sequenceNum,
+    seen: new Set([sequenceNum]),
+  });
+
+  if (!window) return { verdict: 'first', window: fresh() };
+  if (runStart > window.runStart) return { verdict: 'restarted', window: fresh() };
+  if (runStart < window.runStart) return { verdict: 'stale', window };
+
+  if (window.seen.has(sequenceNum)) return { verdict: 'replayed', window };
+  if (sequenceNum <= window.highest - SEQUENCE_WINDOW) return { verdict: 'stale', window };
+
+  window.seen.add(sequenceNum);
+  if (sequenceNum < window.highest) return { verdict: 'reordered', window };
+
+  window.highest = sequenceNum;
+  window.seen.forEach((seen) => {
+    if (seen <= sequenceNum - SEQUENCE_WINDOW) window.seen.delete(seen);
+  });
+  return { verdict: 'next', window };
+}
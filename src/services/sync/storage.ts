@@ -1,193 +1,433 @@
-import * as SQLite from 'expo-sqlite';
-import { LocalState, PassState, ScanEvent, DeviceInfo } from './types';
-
-const DB_NAME = 'offline_scanner.db';
-
-let db: SQLite.SQLiteDatabase | null = null;
+import { LocalState, ScanEvent, DeviceInfo, ScanConflict, HybridTimestamp, ScanTombstone, PassRevocation, PassDefinition, PendingMessage } from './types';
+import { ScanStore, QueuedBroadcast } from './store';
 
 /**
- * Check if a column exists in a table
+ * The part of a SQLite driver the store uses. expo-sqlite's database has this
+ * shape, and nodeSqliteStore.ts adapts sql.js to it.
  */
-async function columnExists(tableName: string, columnName: string): Promise<boolean> {
-  if (!db) throw new Error('Database not initialized');
-
-  try {
-    const result = await db.getAllAsync<{ name: string }>(
-      `PRAGMA table_info(${tableName})`
-    );
-    return result.some(col => col.name === columnName);
-  } catch (error) {
-    console.error(`Error checking column ${columnName} in ${tableName}:`, error);
-    return false;
-  }
+export type SqliteValue = string | number | Uint8Array | null;
+
+export interface SqliteDatabase {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string): Promise<unknown>;
+  runAsync(source: string, params: SqliteValue[]): Promise<unknown>;
+  getAllAsync<T>(source: string): Promise<T[]>;
+  getAllAsync<T>(source: string, params: SqliteValue[]): Promise<T[]>;
+  getFirstAsync<T>(source: string): Promise<T | null>;
+  getFirstAsync<T>(source: string, params: SqliteValue[]): Promise<T | null>;
+  withTransactionAsync(task: () => Promise<void>): Promise<void>;
 }
 
 /**
- * Initialize the SQLite database and create tables if they don't exist
+ * The SQLite store, on whichever driver openDatabase returns
  */
-export async function initDatabase(): Promise<void> {
-  try {
-    db = await SQLite.openDatabaseAsync(DB_NAME);
-
-    // Create scans table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS scans (
-        scan_id TEXT PRIMARY KEY,
-        qr_code TEXT NOT NULL,
-        timestamp INTEGER NOT NULL,
-        device_id TEXT NOT NULL,
-        date TEXT NOT NULL,
-        synced_at INTEGER
-      );
-      CREATE INDEX IF NOT EXISTS idx_qr_timestamp ON scans(qr_code, timestamp);
-      CREATE INDEX IF NOT EXISTS idx_qr_date ON scans(qr_code, date);
-    `);
-
-    // Create pass_types table (stores whether each QR is infinite or one-use)
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS pass_types (
-        qr_code TEXT PRIMARY KEY,
-        type TEXT NOT NULL CHECK(type IN ('infinite', 'one-use'))
-      );
-    `);
-
-    // Create device_state table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS device_state (
-        device_id TEXT PRIMARY KEY,
-        last_sequence INTEGER NOT NULL,
-        last_seen INTEGER NOT NULL,
-        ip_address TEXT
+export function createSqliteStore(openDatabase: () => Promise<SqliteDatabase>): ScanStore {
+  let db: SqliteDatabase | null = null;
+
+  // Transactions run one after another: a second BEGIN on the same connection
+  // while one is open would fail (or, worse, nest its statements into the first)
+  let lastTransaction: Promise<void> = Promise.resolve();
+
+  function transaction(task: () => Promise<void>): Promise<void> {
+    const run = lastTransaction.then(() => db!.withTransactionAsync(task));
+    lastTransaction = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Check if a column exists in a table
+   */
+  async function columnExists(tableName: string, columnName: string): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const result = await db.getAllAsync<{ name: string }>(
+        `PRAGMA table_info(${tableName})`
       );
-    `);
+      return result.some(col => col.name === columnName);
+    } catch (error) {
+      console.error(`Error checking column ${columnName} in ${tableName}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Open the SQLite database and create tables if they don't exist
+   */
+  async function init(): Promise<void> {
+    try {
+      db = await openDatabase();
+
+      // Create scans table
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS scans (
+          scan_id TEXT PRIMARY KEY,
+          qr_code TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          device_id TEXT NOT NULL,
+          date TEXT NOT NULL,
+          synced_at INTEGER,
+          origin_seq INTEGER,
+          hlc_wall INTEGER,
+          hlc_counter INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_qr_timestamp ON scans(qr_code, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_qr_date ON scans(qr_code, date);
+      `);
+
+      // Migration: Add origin_seq column if it doesn't exist
+      const hasOriginSeq = await columnExists('scans', 'origin_seq');
+      if (!hasOriginSeq) {
+        console.log('📦 [MIGRATION] Adding origin_seq column to scans table...');
+        await db.execAsync(`ALTER TABLE scans ADD COLUMN origin_seq INTEGER;`);
+        console.log('✅ [MIGRATION] origin_seq column added successfully');
+      }
+
+      // Migration: Add hybrid logical clock columns if they don't exist
+      const hasHlc = await columnExists('scans', 'hlc_wall');
+      if (!hasHlc) {
+        console.log('📦 [MIGRATION] Adding hlc_wall and hlc_counter columns to scans table...');
+        await db.execAsync(`ALTER TABLE scans ADD COLUMN hlc_wall INTEGER;`);
+        await db.execAsync(`ALTER TABLE scans ADD COLUMN hlc_counter INTEGER;`);
+        console.log('✅ [MIGRATION] HLC columns added successfully');
+      }
+
+      // Create pass_types table (stores whether each QR is infinite or one-use)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS pass_types (
+          qr_code TEXT PRIMARY KEY,
+          type TEXT NOT NULL CHECK(type IN ('infinite', 'one-use'))
+        );
+      `);
+
+      // Create device_state table
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS device_state (
+          device_id TEXT PRIMARY KEY,
+          last_sequence INTEGER NOT NULL,
+          last_seen INTEGER NOT NULL,
+          ip_address TEXT
+        );
+      `);
+
+      // Migration: Add ip_address column if it doesn't exist
+      const hasIpAddress = await columnExists('device_state', 'ip_address');
+      if (!hasIpAddress) {
+        console.log('📦 [MIGRATION] Adding ip_address column to device_state table...');
+        await db.execAsync(`ALTER TABLE device_state ADD COLUMN ip_address TEXT;`);
+        console.log('✅ [MIGRATION] ip_address column added successfully');
+      }
+
+      // Create settings table (for persistent device ID and other settings)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+
+      // Create broadcast_queue table (for retry mechanism)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS broadcast_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          message TEXT NOT NULL,
+          attempts INTEGER DEFAULT 0,
+          last_attempt INTEGER,
+          created_at INTEGER NOT NULL
+        );
+      `);
+
+      // Create pending_acks table (unacknowledged messages per peer, so retries survive restarts)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS pending_acks (
+          message_id TEXT NOT NULL,
+          peer_device_id TEXT NOT NULL,
+          peer_ip_address TEXT NOT NULL,
+          message BLOB NOT NULL,
+          attempts INTEGER NOT NULL,
+          last_attempt INTEGER NOT NULL,
+          PRIMARY KEY (message_id, peer_device_id)
+        );
+      `);
+
+      // Create scan_deliveries table (which peers acknowledged each of our scans)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS scan_deliveries (
+          scan_id TEXT NOT NULL,
+          peer_device_id TEXT NOT NULL,
+          delivered_at INTEGER NOT NULL,
+          PRIMARY KEY (scan_id, peer_device_id)
+        );
+      `);
+
+      // Create scan_tombstones table (voided scans, replicated like scans)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS scan_tombstones (
+          scan_id TEXT PRIMARY KEY,
+          qr_code TEXT NOT NULL,
+          date TEXT NOT NULL,
+          device_id TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          hlc_wall INTEGER,
+          hlc_counter INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_tombstone_qr ON scan_tombstones(qr_code);
+      `);
+
+      // Create pass_definitions table (passes added or edited during the event, last-writer-wins)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS pass_definitions (
+          qr_code TEXT PRIMARY KEY,
+          type TEXT NOT NULL CHECK(type IN ('infinite', 'one-use')),
+          allowed_dates TEXT NOT NULL,
+          metadata TEXT,
+          device_id TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          hlc_wall INTEGER NOT NULL,
+          hlc_counter INTEGER NOT NULL
+        );
+      `);
+
+      // Create pass_revocations table (last-writer-wins per QR code)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS pass_revocations (
+          qr_code TEXT PRIMARY KEY,
+          revoked INTEGER NOT NULL,
+          reason TEXT,
+          device_id TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          hlc_wall INTEGER NOT NULL,
+          hlc_counter INTEGER NOT NULL
+        );
+      `);
+
+      // Create scan_conflicts table (double entries of one-use passes)
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS scan_conflicts (
+          qr_code TEXT NOT NULL,
+          date TEXT NOT NULL,
+          winner_scan_id TEXT NOT NULL,
+          scans TEXT NOT NULL,
+          detected_at INTEGER NOT NULL,
+          PRIMARY KEY (qr_code, date)
+        );
+      `);
 
-    // Migration: Add ip_address column if it doesn't exist
-    const hasIpAddress = await columnExists('device_state', 'ip_address');
-    if (!hasIpAddress) {
-      console.log('📦 [MIGRATION] Adding ip_address column to device_state table...');
-      await db.execAsync(`ALTER TABLE device_state ADD COLUMN ip_address TEXT;`);
-      console.log('✅ [MIGRATION] ip_address column added successfully');
+      console.log('✅ [DB] SQLite database initialized successfully');
+    } catch (error) {
+      console.error('❌ [DB] Failed to initialize database:', error);
+      throw error;
     }
+  }
 
-    // Create settings table (for persistent device ID and other settings)
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      );
-    `);
-
-    // Create broadcast_queue table (for retry mechanism)
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS broadcast_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        message TEXT NOT NULL,
-        attempts INTEGER DEFAULT 0,
-        last_attempt INTEGER,
-        created_at INTEGER NOT NULL
-      );
-    `);
+  /**
+   * Save a scan event to the database
+   */
+  async function saveScanEvent(event: ScanEvent): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot save scan event');
+      return;
+    }
 
-    console.log('✅ [DB] SQLite database initialized successfully');
-  } catch (error) {
-    console.error('❌ [DB] Failed to initialize database:', error);
-    throw error;
+    try {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO scans (scan_id, qr_code, timestamp, device_id, date, synced_at, origin_seq, hlc_wall, hlc_counter)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [event.scanId, event.qrCode, event.timestamp, event.deviceId, event.date, Date.now(), event.seq ?? null, event.hlc?.wallTime ?? null, event.hlc?.counter ?? null]
+      );
+    } catch (error) {
+      console.error('Failed to save scan event:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Save a scan event to the database
- */
-export async function saveScanEvent(event: ScanEvent): Promise<void> {
-  if (!db) {
-    console.warn('Database not initialized yet, cannot save scan event');
-    return;
+  /**
+   * Save multiple scan events in a transaction (for batch sync)
+   */
+  async function saveScanEvents(events: ScanEvent[]): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot save scan events');
+      return;
+    }
+    if (events.length === 0) return;
+
+    try {
+      await transaction(async () => {
+        for (const event of events) {
+          await db!.runAsync(
+            `INSERT OR REPLACE INTO scans (scan_id, qr_code, timestamp, device_id, date, synced_at, origin_seq, hlc_wall, hlc_counter)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [event.scanId, event.qrCode, event.timestamp, event.deviceId, event.date, Date.now(), event.seq ?? null, event.hlc?.wallTime ?? null, event.hlc?.counter ?? null]
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Failed to save scan events:', error);
+      throw error;
+    }
   }
 
-  try {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO scans (scan_id, qr_code, timestamp, device_id, date, synced_at)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [event.scanId, event.qrCode, event.timestamp, event.deviceId, event.date, Date.now()]
-    );
-  } catch (error) {
-    console.error('Failed to save scan event:', error);
-    throw error;
+  /**
+   * Get all scans for a specific QR code
+   */
+  async function getScansForQR(qrCode: string): Promise<ScanEvent[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const rows = await db.getAllAsync<{
+        scan_id: string;
+        qr_code: string;
+        timestamp: number;
+        device_id: string;
+        date: string;
+        origin_seq: number | null;
+        hlc_wall: number | null;
+        hlc_counter: number | null;
+      }>(
+        'SELECT scan_id, qr_code, timestamp, device_id, date, origin_seq, hlc_wall, hlc_counter FROM scans WHERE qr_code = ? ORDER BY timestamp ASC',
+        [qrCode]
+      );
+
+      return rows.map(row => ({
+        scanId: row.scan_id,
+        qrCode: row.qr_code,
+        timestamp: row.timestamp,
+        deviceId: row.device_id,
+        date: row.date,
+        seq: row.origin_seq ?? undefined,
+        hlc: row.hlc_wall !== null ? { wallTime: row.hlc_wall, counter: row.hlc_counter ?? 0 } : undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to get scans for QR:', error);
+      return [];
+    }
   }
-}
 
-/**
- * Save multiple scan events in a transaction (for batch sync)
- */
-export async function saveScanEvents(events: ScanEvent[]): Promise<void> {
-  if (!db) {
-    console.warn('Database not initialized yet, cannot save scan events');
-    return;
+  /**
+   * Get the highest scan sequence recorded for an originating device
+   */
+  async function getHighestOriginSeq(deviceId: string): Promise<number> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const row = await db.getFirstAsync<{ max_seq: number | null }>(
+        'SELECT MAX(origin_seq) as max_seq FROM scans WHERE device_id = ?',
+        [deviceId]
+      );
+
+      return row?.max_seq || 0;
+    } catch (error) {
+      console.error('Failed to get highest origin sequence:', error);
+      return 0;
+    }
   }
-  if (events.length === 0) return;
 
-  try {
-    await db.withTransactionAsync(async () => {
-      for (const event of events) {
-        await db!.runAsync(
-          `INSERT OR REPLACE INTO scans (scan_id, qr_code, timestamp, device_id, date, synced_at)
-           VALUES (?, ?, ?, ?, ?, ?)`,
-          [event.scanId, event.qrCode, event.timestamp, event.deviceId, event.date, Date.now()]
-        );
-      }
-    });
-  } catch (error) {
-    console.error('Failed to save scan events:', error);
-    throw error;
+  /**
+   * Get the latest hybrid logical clock recorded on any scan
+   */
+  async function getLatestScanHlc(): Promise<HybridTimestamp | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const row = await db.getFirstAsync<{ hlc_wall: number; hlc_counter: number | null }>(
+        'SELECT hlc_wall, hlc_counter FROM scans WHERE hlc_wall IS NOT NULL ORDER BY hlc_wall DESC, hlc_counter DESC LIMIT 1'
+      );
+
+      return row ? { wallTime: row.hlc_wall, counter: row.hlc_counter ?? 0 } : null;
+    } catch (error) {
+      console.error('Failed to get latest scan HLC:', error);
+      return null;
+    }
   }
-}
 
-/**
- * Get all scans for a specific QR code
- */
-export async function getScansForQR(qrCode: string): Promise<ScanEvent[]> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Save scan tombstones in a transaction
+   */
+  async function saveTombstones(tombstones: ScanTombstone[]): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot save tombstones');
+      return;
+    }
+    if (tombstones.length === 0) return;
+
+    try {
+      await transaction(async () => {
+        for (const tombstone of tombstones) {
+          await db!.runAsync(
+            `INSERT OR IGNORE INTO scan_tombstones (scan_id, qr_code, date, device_id, timestamp, hlc_wall, hlc_counter)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [tombstone.scanId, tombstone.qrCode, tombstone.date, tombstone.deviceId, tombstone.timestamp, tombstone.hlc?.wallTime ?? null, tombstone.hlc?.counter ?? null]
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Failed to save tombstones:', error);
+      throw error;
+    }
+  }
 
-  try {
-    const rows = await db.getAllAsync<{
-      scan_id: string;
-      qr_code: string;
-      timestamp: number;
-      device_id: string;
-      date: string;
-    }>(
-      'SELECT scan_id, qr_code, timestamp, device_id, date FROM scans WHERE qr_code = ? ORDER BY timestamp ASC',
-      [qrCode]
-    );
+  /**
+   * Get all tombstones for a specific QR code
+   */
+  async function getTombstonesForQR(qrCode: string): Promise<ScanTombstone[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const rows = await db.getAllAsync<{
+        scan_id: string;
+        qr_code: string;
+        date: string;
+        device_id: string;
+        timestamp: number;
+        hlc_wall: number | null;
+        hlc_counter: number | null;
+      }>(
+        'SELECT scan_id, qr_code, date, device_id, timestamp, hlc_wall, hlc_counter FROM scan_tombstones WHERE qr_code = ?',
+        [qrCode]
+      );
 
-    return rows.map(row => ({
-      scanId: row.scan_id,
-      qrCode: row.qr_code,
-      timestamp: row.timestamp,
-      deviceId: row.device_id,
-      date: row.date,
-    }));
-  } catch (error) {
-    console.error('Failed to get scans for QR:', error);
-    return [];
+      return rows.map(row => ({
+        scanId: row.scan_id,
+        qrCode: row.qr_code,
+        date: row.date,
+        deviceId: row.device_id,
+        timestamp: row.timestamp,
+        hlc: row.hlc_wall !== null ? { wallTime: row.hlc_wall, counter: row.hlc_counter ?? 0 } : undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to get tombstones for QR:', error);
+      return [];
+    }
   }
-}
 
-/**
- * Get all scans for a specific QR code on a specific date
- */
-export async function getScansForQROnDate(qrCode: string, date: string): Promise<ScanEvent[]> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Get all scans for a specific QR code on a specific date (voided scans excluded)
+   */
+  async function getScansForQROnDate(qrCode: string, date: string): Promise<ScanEvent[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      return await selectScansOnDate(qrCode, date);
+    } catch (error) {
+      console.error('Failed to get scans for QR on date:', error);
+      return [];
+    }
+  }
 
-  try {
-    const rows = await db.getAllAsync<{
+  async function selectScansOnDate(qrCode: string, date: string): Promise<ScanEvent[]> {
+    const rows = await db!.getAllAsync<{
       scan_id: string;
       qr_code: string;
       timestamp: number;
       device_id: string;
       date: string;
+      origin_seq: number | null;
+      hlc_wall: number | null;
+      hlc_counter: number | null;
     }>(
-      'SELECT scan_id, qr_code, timestamp, device_id, date FROM scans WHERE qr_code = ? AND date = ? ORDER BY timestamp ASC',
+      `SELECT scan_id, qr_code, timestamp, device_id, date, origin_seq, hlc_wall, hlc_counter FROM scans
+       WHERE qr_code = ? AND date = ? AND scan_id NOT IN (SELECT scan_id FROM scan_tombstones)
+       ORDER BY timestamp ASC`,
       [qrCode, date]
     );
 
@@ -197,352 +437,748 @@ export async function getScansForQROnDate(qrCode: string, date: string): Promise
       timestamp: row.timestamp,
       deviceId: row.device_id,
       date: row.date,
+      seq: row.origin_seq ?? undefined,
+      hlc: row.hlc_wall !== null ? { wallTime: row.hlc_wall, counter: row.hlc_counter ?? 0 } : undefined,
     }));
-  } catch (error) {
-    console.error('Failed to get scans for QR on date:', error);
-    return [];
   }
-}
 
-/**
- * Load the complete state from the database
- */
-export async function loadState(qrCodes: string[]): Promise<LocalState> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Validate and save a scan in one transaction: decide() sees the scans of the QR
+   * code on that date (voided scans excluded) and returns the scan to save, or null
+   */
+  async function recordScan(
+    qrCode: string,
+    date: string,
+    decide: (todayScans: ScanEvent[]) => ScanEvent | null
+  ): Promise<ScanEvent | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    let recorded: ScanEvent | null = null;
+    try {
+      await transaction(async () => {
+        const event = decide(await selectScansOnDate(qrCode, date));
+        if (!event) return;
 
-  const state: LocalState = {};
+        await db!.runAsync(
+          `INSERT INTO scans (scan_id, qr_code, timestamp, device_id, date, synced_at, origin_seq, hlc_wall, hlc_counter)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [event.scanId, event.qrCode, event.timestamp, event.deviceId, event.date, Date.now(), event.seq ?? null, event.hlc?.wallTime ?? null, event.hlc?.counter ?? null]
+        );
+        recorded = event;
+      });
+      return recorded;
+    } catch (error) {
+      console.error('Failed to record scan event:', error);
+      throw error;
+    }
+  }
 
-  try {
-    // Load pass types
-    const passTypes = await db.getAllAsync<{ qr_code: string; type: 'infinite' | 'one-use' }>(
-      'SELECT qr_code, type FROM pass_types'
-    );
+  /**
+   * Load the complete state from the database
+   */
+  async function loadState(qrCodes: string[]): Promise<LocalState> {
+    if (!db) throw new Error('Database not initialized');
+
+    const state: LocalState = {};
 
-    const typeMap = new Map<string, 'infinite' | 'one-use'>();
-    passTypes.forEach(row => typeMap.set(row.qr_code, row.type));
+    try {
+      // Load pass types
+      const passTypes = await db.getAllAsync<{ qr_code: string; type: 'infinite' | 'one-use' }>(
+        'SELECT qr_code, type FROM pass_types'
+      );
 
-    // Load all scans
-    for (const qrCode of qrCodes) {
-      const scans = await getScansForQR(qrCode);
-      const type = typeMap.get(qrCode) || (qrCode.includes('I') ? 'infinite' : 'one-use');
+      const typeMap = new Map<string, 'infinite' | 'one-use'>();
+      passTypes.forEach(row => typeMap.set(row.qr_code, row.type));
 
-      state[qrCode] = {
-        type,
-        scans,
-      };
+      // Load all scans
+      for (const qrCode of qrCodes) {
+        const scans = await getScansForQR(qrCode);
+        const tombstones = await getTombstonesForQR(qrCode);
+        const type = typeMap.get(qrCode) || (qrCode.includes('I') ? 'infinite' : 'one-use');
+
+        state[qrCode] = {
+          type,
+          scans,
+          ...(tombstones.length > 0 && { tombstones }),
+        };
+      }
+
+      return state;
+    } catch (error) {
+      console.error('Failed to load state:', error);
+      return {};
     }
+  }
 
-    return state;
-  } catch (error) {
-    console.error('Failed to load state:', error);
-    return {};
+  /**
+   * Save or update pass type
+   */
+  async function savePassType(qrCode: string, type: 'infinite' | 'one-use'): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      await db.runAsync(
+        'INSERT OR REPLACE INTO pass_types (qr_code, type) VALUES (?, ?)',
+        [qrCode, type]
+      );
+    } catch (error) {
+      console.error('Failed to save pass type:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Save or update pass type
- */
-export async function savePassType(qrCode: string, type: 'infinite' | 'one-use'): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Update device state (for sequence number tracking)
+   */
+  async function updateDeviceState(deviceInfo: DeviceInfo): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot update device state');
+      return;
+    }
 
-  try {
-    await db.runAsync(
-      'INSERT OR REPLACE INTO pass_types (qr_code, type) VALUES (?, ?)',
-      [qrCode, type]
-    );
-  } catch (error) {
-    console.error('Failed to save pass type:', error);
-    throw error;
+    try {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO device_state (device_id, last_sequence, last_seen, ip_address)
+         VALUES (?, ?, ?, ?)`,
+        [deviceInfo.deviceId, deviceInfo.lastSequence, deviceInfo.lastSeen, deviceInfo.ipAddress || null]
+      );
+    } catch (error) {
+      console.error('Failed to update device state:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Update device state (for sequence number tracking)
- */
-export async function updateDeviceState(deviceInfo: DeviceInfo): Promise<void> {
-  if (!db) {
-    console.warn('Database not initialized yet, cannot update device state');
-    return;
+  /**
+   * Get device state
+   */
+  async function getDeviceState(deviceId: string): Promise<DeviceInfo | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const row = await db.getFirstAsync<{
+        device_id: string;
+        last_sequence: number;
+        last_seen: number;
+        ip_address: string | null;
+      }>(
+        'SELECT device_id, last_sequence, last_seen, ip_address FROM device_state WHERE device_id = ?',
+        [deviceId]
+      );
+
+      if (!row) return null;
+
+      return {
+        deviceId: row.device_id,
+        lastSequence: row.last_sequence,
+        lastSeen: row.last_seen,
+        ipAddress: row.ip_address || undefined,
+      };
+    } catch (error) {
+      console.error('Failed to get device state:', error);
+      return null;
+    }
   }
 
-  try {
-    await db.runAsync(
-      `INSERT OR REPLACE INTO device_state (device_id, last_sequence, last_seen, ip_address)
-       VALUES (?, ?, ?, ?)`,
-      [deviceInfo.deviceId, deviceInfo.lastSequence, deviceInfo.lastSeen, deviceInfo.ipAddress || null]
-    );
-  } catch (error) {
-    console.error('Failed to update device state:', error);
-    throw error;
+  /**
+   * Get all known devices
+   */
+  async function getAllDeviceStates(): Promise<DeviceInfo[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const rows = await db.getAllAsync<{
+        device_id: string;
+        last_sequence: number;
+        last_seen: number;
+        ip_address: string | null;
+      }>('SELECT device_id, last_sequence, last_seen, ip_address FROM device_state');
+
+      return rows.map(row => ({
+        deviceId: row.device_id,
+        lastSequence: row.last_sequence,
+        lastSeen: row.last_seen,
+        ipAddress: row.ip_address || undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to get all device states:', error);
+      return [];
+    }
   }
-}
 
-/**
- * Get device state
- */
-export async function getDeviceState(deviceId: string): Promise<DeviceInfo | null> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Add message to broadcast queue
+   */
+  async function enqueueBroadcast(message: string): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot enqueue broadcast');
+      return;
+    }
 
-  try {
-    const row = await db.getFirstAsync<{
-      device_id: string;
-      last_sequence: number;
-      last_seen: number;
-      ip_address: string | null;
-    }>(
-      'SELECT device_id, last_sequence, last_seen, ip_address FROM device_state WHERE device_id = ?',
-      [deviceId]
-    );
+    try {
+      await db.runAsync(
+        'INSERT INTO broadcast_queue (message, attempts, created_at) VALUES (?, 0, ?)',
+        [message, Date.now()]
+      );
+    } catch (error) {
+      console.error('Failed to enqueue broadcast:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get pending broadcasts from queue
+   */
+  async function getPendingBroadcasts(maxAttempts: number = 5): Promise<QueuedBroadcast[]> {
+    if (!db) {
+      console.warn('Database not initialized yet, returning empty array for pending broadcasts');
+      return [];
+    }
 
-    if (!row) return null;
+    try {
+      const rows = await db.getAllAsync<{
+        id: number;
+        message: string;
+        attempts: number;
+      }>(
+        'SELECT id, message, attempts FROM broadcast_queue WHERE attempts < ? ORDER BY created_at ASC LIMIT 10',
+        [maxAttempts]
+      );
 
-    return {
-      deviceId: row.device_id,
-      lastSequence: row.last_sequence,
-      lastSeen: row.last_seen,
-      ipAddress: row.ip_address || undefined,
-    };
-  } catch (error) {
-    console.error('Failed to get device state:', error);
-    return null;
+      return rows;
+    } catch (error) {
+      console.error('Failed to get pending broadcasts:', error);
+      return [];
+    }
   }
-}
 
-/**
- * Get all known devices
- */
-export async function getAllDeviceStates(): Promise<DeviceInfo[]> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Update broadcast attempt
+   */
+  async function updateBroadcastAttempt(id: number): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
 
-  try {
-    const rows = await db.getAllAsync<{
-      device_id: string;
-      last_sequence: number;
-      last_seen: number;
-      ip_address: string | null;
-    }>('SELECT device_id, last_sequence, last_seen, ip_address FROM device_state');
+    try {
+      await db.runAsync(
+        'UPDATE broadcast_queue SET attempts = attempts + 1, last_attempt = ? WHERE id = ?',
+        [Date.now(), id]
+      );
+    } catch (error) {
+      console.error('Failed to update broadcast attempt:', error);
+      throw error;
+    }
+  }
 
-    return rows.map(row => ({
-      deviceId: row.device_id,
-      lastSequence: row.last_sequence,
-      lastSeen: row.last_seen,
-      ipAddress: row.ip_address || undefined,
-    }));
-  } catch (error) {
-    console.error('Failed to get all device states:', error);
-    return [];
+  /**
+   * Remove broadcast from queue
+   */
+  async function removeBroadcast(id: number): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      await db.runAsync('DELETE FROM broadcast_queue WHERE id = ?', [id]);
+    } catch (error) {
+      console.error('Failed to remove broadcast:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Add message to broadcast queue
- */
-export async function enqueueBroadcast(message: string): Promise<void> {
-  if (!db) {
-    console.warn('Database not initialized yet, cannot enqueue broadcast');
-    return;
+  /**
+   * Save or update a message awaiting an ACK from a peer
+   */
+  async function savePendingAck(pending: PendingMessage): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot save pending ACK');
+      return;
+    }
+
+    try {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO pending_acks (message_id, peer_device_id, peer_ip_address, message, attempts, last_attempt)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [pending.messageId, pending.peerDeviceId, pending.peerIpAddress, pending.message, pending.attempts, pending.timestamp]
+      );
+    } catch (error) {
+      console.error('Failed to save pending ACK:', error);
+    }
   }
 
-  try {
-    await db.runAsync(
-      'INSERT INTO broadcast_queue (message, attempts, created_at) VALUES (?, 0, ?)',
-      [message, Date.now()]
-    );
-  } catch (error) {
-    console.error('Failed to enqueue broadcast:', error);
-    throw error;
+  /**
+   * Remove a pending ACK (acknowledged or given up on)
+   */
+  async function removePendingAck(messageId: string, peerDeviceId: string): Promise<void> {
+    if (!db) return;
+
+    try {
+      await db.runAsync(
+        'DELETE FROM pending_acks WHERE message_id = ? AND peer_device_id = ?',
+        [messageId, peerDeviceId]
+      );
+    } catch (error) {
+      console.error('Failed to remove pending ACK:', error);
+    }
   }
-}
 
-/**
- * Get pending broadcasts from queue
- */
-export async function getPendingBroadcasts(maxAttempts: number = 5): Promise<Array<{ id: number; message: string; attempts: number }>> {
-  if (!db) {
-    console.warn('Database not initialized yet, returning empty array for pending broadcasts');
-    return [];
+  /**
+   * Remove all pending ACKs (e.g. when switching events)
+   */
+  async function clearPendingAcks(): Promise<void> {
+    if (!db) return;
+
+    try {
+      await db.runAsync('DELETE FROM pending_acks');
+    } catch (error) {
+      console.error('Failed to clear pending ACKs:', error);
+    }
   }
 
-  try {
-    const rows = await db.getAllAsync<{
-      id: number;
-      message: string;
-      attempts: number;
-    }>(
-      'SELECT id, message, attempts FROM broadcast_queue WHERE attempts < ? ORDER BY created_at ASC LIMIT 10',
-      [maxAttempts]
-    );
+  /**
+   * Get all messages still awaiting an ACK
+   */
+  async function getAllPendingAcks(): Promise<PendingMessage[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const rows = await db.getAllAsync<{
+        message_id: string;
+        peer_device_id: string;
+        peer_ip_address: string;
+        message: string | Uint8Array;
+        attempts: number;
+        last_attempt: number;
+      }>('SELECT message_id, peer_device_id, peer_ip_address, message, attempts, last_attempt FROM pending_acks');
+
+      return rows.map(row => ({
+        messageId: row.message_id,
+        peerDeviceId: row.peer_device_id,
+        peerIpAddress: row.peer_ip_address,
+        message: row.message,
+        attempts: row.attempts,
+        timestamp: row.last_attempt,
+      }));
+    } catch (error) {
+      console.error('Failed to get pending ACKs:', error);
+      return [];
+    }
+  }
 
-    return rows;
-  } catch (error) {
-    console.error('Failed to get pending broadcasts:', error);
-    return [];
+  /**
+   * Record that a peer has received some of our scans
+   */
+  async function saveScanDeliveries(scanIds: string[], peerDeviceId: string): Promise<void> {
+    if (!db) return;
+
+    try {
+      await transaction(async () => {
+        for (const scanId of scanIds) {
+          await db!.runAsync(
+            'INSERT OR IGNORE INTO scan_deliveries (scan_id, peer_device_id, delivered_at) VALUES (?, ?, ?)',
+            [scanId, peerDeviceId, Date.now()]
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Failed to save scan deliveries:', error);
+    }
   }
-}
 
-/**
- * Update broadcast attempt
- */
-export async function updateBroadcastAttempt(id: number): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Get the peers each scan has been delivered to
+   */
+  async function getAllScanDeliveries(): Promise<{ scanId: string; peerDeviceId: string }[]> {
+    if (!db) throw new Error('Database not initialized');
 
-  try {
-    await db.runAsync(
-      'UPDATE broadcast_queue SET attempts = attempts + 1, last_attempt = ? WHERE id = ?',
-      [Date.now(), id]
-    );
-  } catch (error) {
-    console.error('Failed to update broadcast attempt:', error);
-    throw error;
+    try {
+      const rows = await db.getAllAsync<{ scan_id: string; peer_device_id: string }>(
+        'SELECT scan_id, peer_device_id FROM scan_deliveries'
+      );
+      return rows.map(row => ({ scanId: row.scan_id, peerDeviceId: row.peer_device_id }));
+    } catch (error) {
+      console.error('Failed to get scan deliveries:', error);
+      return [];
+    }
   }
-}
 
-/**
- * Remove broadcast from queue
- */
-export async function removeBroadcast(id: number): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Save or update a scan conflict
+   */
+  async function saveConflict(conflict: ScanConflict): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot save conflict');
+      return;
+    }
 
-  try {
-    await db.runAsync('DELETE FROM broadcast_queue WHERE id = ?', [id]);
-  } catch (error) {
-    console.error('Failed to remove broadcast:', error);
-    throw error;
+    try {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO scan_conflicts (qr_code, date, winner_scan_id, scans, detected_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        [conflict.qrCode, conflict.date, conflict.winnerScanId, JSON.stringify(conflict.scans), conflict.detectedAt]
+      );
+    } catch (error) {
+      console.error('Failed to save conflict:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Get total scan count across all QR codes (for statistics)
- */
-export async function getTotalScanCount(): Promise<number> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Get all recorded scan conflicts
+   */
+  async function getAllConflicts(): Promise<ScanConflict[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const rows = await db.getAllAsync<{
+        qr_code: string;
+        date: string;
+        winner_scan_id: string;
+        scans: string;
+        detected_at: number;
+      }>('SELECT qr_code, date, winner_scan_id, scans, detected_at FROM scan_conflicts ORDER BY detected_at DESC');
+
+      return rows.map(row => ({
+        qrCode: row.qr_code,
+        date: row.date,
+        winnerScanId: row.winner_scan_id,
+        scans: JSON.parse(row.scans),
+        detectedAt: row.detected_at,
+      }));
+    } catch (error) {
+      console.error('Failed to get conflicts:', error);
+      return [];
+    }
+  }
 
-  try {
-    const row = await db.getFirstAsync<{ count: number }>(
-      'SELECT COUNT(*) as count FROM scans'
-    );
+  /**
+   * Save or replace a pass definition
+   */
+  async function savePassDefinition(definition: PassDefinition): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot save pass definition');
+      return;
+    }
 
-    return row?.count || 0;
-  } catch (error) {
-    console.error('Failed to get total scan count:', error);
-    return 0;
+    try {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO pass_definitions (qr_code, type, allowed_dates, metadata, device_id, timestamp, hlc_wall, hlc_counter)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          definition.qrCode,
+          definition.type,
+          JSON.stringify(definition.allowedDates),
+          definition.metadata ? JSON.stringify(definition.metadata) : null,
+          definition.deviceId,
+          definition.timestamp,
+          definition.hlc.wallTime,
+          definition.hlc.counter,
+        ]
+      );
+    } catch (error) {
+      console.error('Failed to save pass definition:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Get pending broadcast queue size
- */
-export async function getPendingBroadcastCount(): Promise<number> {
-  if (!db) {
-    console.warn('Database not initialized yet, returning 0 for pending broadcast count');
-    return 0;
+  /**
+   * Get all pass definitions changed during the event
+   */
+  async function getAllPassDefinitions(): Promise<PassDefinition[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const rows = await db.getAllAsync<{
+        qr_code: string;
+        type: 'infinite' | 'one-use';
+        allowed_dates: string;
+        metadata: string | null;
+        device_id: string;
+        timestamp: number;
+        hlc_wall: number;
+        hlc_counter: number;
+      }>('SELECT qr_code, type, allowed_dates, metadata, device_id, timestamp, hlc_wall, hlc_counter FROM pass_definitions');
+
+      return rows.map(row => ({
+        qrCode: row.qr_code,
+        type: row.type,
+        allowedDates: JSON.parse(row.allowed_dates),
+        metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+        deviceId: row.device_id,
+        timestamp: row.timestamp,
+        hlc: { wallTime: row.hlc_wall, counter: row.hlc_counter },
+      }));
+    } catch (error) {
+      console.error('Failed to get pass definitions:', error);
+      return [];
+    }
   }
 
-  try {
-    const row = await db.getFirstAsync<{ count: number }>(
-      'SELECT COUNT(*) as count FROM broadcast_queue WHERE attempts < 5'
-    );
+  /**
+   * Save or replace the revocation status of a pass
+   */
+  async function saveRevocation(revocation: PassRevocation): Promise<void> {
+    if (!db) {
+      console.warn('Database not initialized yet, cannot save revocation');
+      return;
+    }
 
-    return row?.count || 0;
-  } catch (error) {
-    console.error('Failed to get pending broadcast count:', error);
-    return 0;
+    try {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO pass_revocations (qr_code, revoked, reason, device_id, timestamp, hlc_wall, hlc_counter)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [revocation.qrCode, revocation.revoked ? 1 : 0, revocation.reason ?? null, revocation.deviceId, revocation.timestamp, revocation.hlc.wallTime, revocation.hlc.counter]
+      );
+    } catch (error) {
+      console.error('Failed to save revocation:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Get or create persistent device ID
- */
-export async function getOrCreateDeviceId(generateId: () => string): Promise<string> {
-  if (!db) throw new Error('Database not initialized');
-
-  try {
-    // Try to get existing device ID
-    const row = await db.getFirstAsync<{ value: string }>(
-      'SELECT value FROM settings WHERE key = ?',
-      ['device_id']
-    );
+  /**
+   * Get the revocation status of every pass that has one
+   */
+  async function getAllRevocations(): Promise<PassRevocation[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const rows = await db.getAllAsync<{
+        qr_code: string;
+        revoked: number;
+        reason: string | null;
+        device_id: string;
+        timestamp: number;
+        hlc_wall: number;
+        hlc_counter: number;
+      }>('SELECT qr_code, revoked, reason, device_id, timestamp, hlc_wall, hlc_counter FROM pass_revocations');
+
+      return rows.map(row => ({
+        qrCode: row.qr_code,
+        revoked: row.revoked === 1,
+        reason: row.reason ?? undefined,
+        deviceId: row.device_id,
+        timestamp: row.timestamp,
+        hlc: { wallTime: row.hlc_wall, counter: row.hlc_counter },
+      }));
+    } catch (error) {
+      console.error('Failed to get revocations:', error);
+      return [];
+    }
+  }
 
-    if (row) {
-      console.log(`✅ [DEVICE ID] Loaded existing device ID: ${row.value.substring(0, 8)}...`);
-      return row.value;
+  /**
+   * Get total scan count across all QR codes (for statistics)
+   */
+  async function getTotalScanCount(): Promise<number> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const row = await db.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) as count FROM scans'
+      );
+
+      return row?.count || 0;
+    } catch (error) {
+      console.error('Failed to get total scan count:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get pending broadcast queue size
+   */
+  async function getPendingBroadcastCount(): Promise<number> {
+    if (!db) {
+      console.warn('Database not initialized yet, returning 0 for pending broadcast count');
+      return 0;
     }
 
-    // Generate new device ID
-    const newDeviceId = generateId();
-    await db.runAsync(
-      'INSERT INTO settings (key, value) VALUES (?, ?)',
-      ['device_id', newDeviceId]
-    );
-    console.log(`🆕 [DEVICE ID] Created new device ID: ${newDeviceId.substring(0, 8)}...`);
-    return newDeviceId;
-  } catch (error) {
-    console.error('Failed to get or create device ID:', error);
-    throw error;
+    try {
+      const row = await db.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) as count FROM broadcast_queue WHERE attempts < 5'
+      );
+
+      return row?.count || 0;
+    } catch (error) {
+      console.error('Failed to get pending broadcast count:', error);
+      return 0;
+    }
   }
-}
 
-/**
- * Save JSON config state to settings
- */
-export async function saveJSONConfig(config: any): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
-
-  try {
-    const configStr = JSON.stringify(config);
-    await db.runAsync(
-      'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
-      ['json_config', configStr]
-    );
-    console.log('✅ [DB] JSON config saved to database');
-  } catch (error) {
-    console.error('Failed to save JSON config:', error);
-    throw error;
+  /**
+   * Get or create persistent device ID
+   */
+  async function getOrCreateDeviceId(generateId: () => string): Promise<string> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      // Try to get existing device ID
+      const row = await db.getFirstAsync<{ value: string }>(
+        'SELECT value FROM settings WHERE key = ?',
+        ['device_id']
+      );
+
+      if (row) {
+        console.log(`✅ [DEVICE ID] Loaded existing device ID: ${row.value.substring(0, 8)}...`);
+        return row.value;
+      }
+
+      // Generate new device ID
+      const newDeviceId = generateId();
+      await db.runAsync(
+        'INSERT INTO settings (key, value) VALUES (?, ?)',
+        ['device_id', newDeviceId]
+      );
+      console.log(`🆕 [DEVICE ID] Created new device ID: ${newDeviceId.substring(0, 8)}...`);
+      return newDeviceId;
+    } catch (error) {
+      console.error('Failed to get or create device ID:', error);
+      throw error;
+    }
   }
-}
 
-/**
- * Load JSON config state from settings
- */
-export async function loadJSONConfig(): Promise<any | null> {
-  if (!db) throw new Error('Database not initialized');
+  /**
+   * Get a value from the settings table
+   */
+  async function getSetting(key: string): Promise<string | null> {
+    if (!db) throw new Error('Database not initialized');
 
-  try {
-    const row = await db.getFirstAsync<{ value: string }>(
-      'SELECT value FROM settings WHERE key = ?',
-      ['json_config']
-    );
+    try {
+      const row = await db.getFirstAsync<{ value: string }>(
+        'SELECT value FROM settings WHERE key = ?',
+        [key]
+      );
 
-    if (row) {
-      const config = JSON.parse(row.value);
-      console.log(`✅ [DB] Loaded JSON config from database (${Object.keys(config).length} QR codes)`);
-      return config;
+      return row ? row.value : null;
+    } catch (error) {
+      console.error(`Failed to get setting ${key}:`, error);
+      return null;
     }
+  }
+
+  /**
+   * Save a value to the settings table
+   */
+  async function saveSetting(key: string, value: string): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
 
-    return null;
-  } catch (error) {
-    console.error('Failed to load JSON config:', error);
-    return null;
+    try {
+      await db.runAsync(
+        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+        [key, value]
+      );
+    } catch (error) {
+      console.error(`Failed to save setting ${key}:`, error);
+      throw error;
+    }
   }
-}
 
-/**
- * Clear all data (for testing/reset)
- */
-export async function clearAllData(): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
-
-  try {
-    await db.withTransactionAsync(async () => {
-      await db!.runAsync('DELETE FROM scans');
-      await db!.runAsync('DELETE FROM pass_types');
-      await db!.runAsync('DELETE FROM device_state');
-      await db!.runAsync('DELETE FROM broadcast_queue');
-      await db!.runAsync('DELETE FROM settings');
-    });
-    console.log('All data cleared successfully');
-  } catch (error) {
-    console.error('Failed to clear all data:', error);
-    throw error;
+  /**
+   * Save JSON config state to settings
+   */
+  async function saveJSONConfig(config: any): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const configStr = JSON.stringify(config);
+      await db.runAsync(
+        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+        ['json_config', configStr]
+      );
+      console.log('✅ [DB] JSON config saved to database');
+    } catch (error) {
+      console.error('Failed to save JSON config:', error);
+      throw error;
+    }
   }
+
+  /**
+   * Load JSON config state from settings
+   */
+  async function loadJSONConfig(): Promise<any | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      const row = await db.getFirstAsync<{ value: string }>(
+        'SELECT value FROM settings WHERE key = ?',
+        ['json_config']
+      );
+
+      if (row) {
+        const config = JSON.parse(row.value);
+        console.log(`✅ [DB] Loaded JSON config from database (${Object.keys(config).length} QR codes)`);
+        return config;
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Failed to load JSON config:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Clear all data (for testing/reset)
+   */
+  async function clearAllData(): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    try {
+      await transaction(async () => {
+        await db!.runAsync('DELETE FROM scans');
+        await db!.runAsync('DELETE FROM pass_types');
+        await db!.runAsync('DELETE FROM device_state');
+        await db!.runAsync('DELETE FROM broadcast_queue');
+        await db!.runAsync('DELETE FROM pending_acks');
+        await db!.runAsync('DELETE FROM scan_deliveries');
+        await db!.runAsync('DELETE FROM scan_conflicts');
+        await db!.runAsync('DELETE FROM scan_tombstones');
+        await db!.runAsync('DELETE FROM pass_revocations');
+        await db!.runAsync('DELETE FROM pass_definitions');
+        await db!.runAsync('DELETE FROM settings');
+      });
+      console.log('All data cleared successfully');
+    } catch (error) {
+      console.error('Failed to clear all data:', error);
+      throw error;
+    }
+  }
+
+  return {
+    init,
+    saveScanEvent,
+    saveScanEvents,
+    getScansForQR,
+    getHighestOriginSeq,
+    getLatestScanHlc,
+    saveTombstones,
+    getTombstonesForQR,
+    getScansForQROnDate,
+    recordScan,
+    loadState,
+    savePassType,
+    updateDeviceState,
+    getDeviceState,
+    getAllDeviceStates,
+    enqueueBroadcast,
+    getPendingBroadcasts,
+    updateBroadcastAttempt,
+    removeBroadcast,
+    savePendingAck,
+    removePendingAck,
+    clearPendingAcks,
+    getAllPendingAcks,
+    saveScanDeliveries,
+    getAllScanDeliveries,
+    saveConflict,
+    getAllConflicts,
+    savePassDefinition,
+    getAllPassDefinitions,
+    saveRevocation,
+    getAllRevocations,
+    getTotalScanCount,
+    getPendingBroadcastCount,
+    getOrCreateDeviceId,
+    getSetting,
+    saveSetting,
+    saveJSONConfig,
+    loadJSONConfig,
+    clearAllData,
+  };
 }
@@ -0,0 +1,107 @@
+import {
+  LocalState,
+  ScanEvent,
+  DeviceInfo,
+  ScanConflict,
+  HybridTimestamp,
+  ScanTombstone,
+  PassRevocation,
+  PassDefinition,
+  PendingMessage,
+} from './types';
+
+/**
+ * Where a sync engine keeps its data.
+ *
+ * The app uses SQLite through expo-sqlite (expoStore.ts); the same SQL runs in
+ * Node on sql.js (nodeSqliteStore.ts), and memoryStore.ts keeps everything in
+ * maps. All three behave the same way, so the sync logic can run headlessly.
+ */
+
+export type PassType = 'infinite' | 'one-use';
+
+// A message waiting in the broadcast retry queue
+export interface QueuedBroadcast {
+  id: number;
+  message: string;
+  attempts: number;
+}
+
+export interface ScanDelivery {
+  scanId: string;
+  peerDeviceId: string;
+}
+
+export interface ScanStore {
+  /** Open the store (create tables, run migrations); must be called first */
+  init(): Promise<void>;
+
+  // Scans (saving a scan that exists replaces it)
+  saveScanEvent(event: ScanEvent): Promise<void>;
+  saveScanEvents(events: ScanEvent[]): Promise<void>;
+  /** Scans of a QR code, oldest first */
+  getScansForQR(qrCode: string): Promise<ScanEvent[]>;
+  /** Scans of a QR code on a date, oldest first, voided scans excluded */
+  getScansForQROnDate(qrCode: string, date: string): Promise<ScanEvent[]>;
+  /**
+   * Validate and save a scan atomically: decide() gets the QR code's scans on the
+   * date as stored and returns the scan to save, or null to save nothing. No other
+   * write lands between the read and the save. Resolves to the saved scan.
+   */
+  recordScan(
+    qrCode: string,
+    date: string,
+    decide: (todayScans: ScanEvent[]) => ScanEvent | null
+  ): Promise<ScanEvent | null>;
+  getHighestOriginSeq(deviceId: string): Promise<number>;
+  getLatestScanHlc(): Promise<HybridTimestamp | null>;
+  getTotalScanCount(): Promise<number>;
+  /** Scans, tombstones and pass types of the given QR codes */
+  loadState(qrCodes: string[]): Promise<LocalState>;
+
+  // Tombstones (a tombstone is never replaced)
+  saveTombstones(tombstones: ScanTombstone[]): Promise<void>;
+  getTombstonesForQR(qrCode: string): Promise<ScanTombstone[]>;
+
+  // Pass types, definitions and revocations
+  savePassType(qrCode: string, type: PassType): Promise<void>;
+  savePassDefinition(definition: PassDefinition): Promise<void>;
+  getAllPassDefinitions(): Promise<PassDefinition[]>;
+  saveRevocation(revocation: PassRevocation): Promise<void>;
+  getAllRevocations(): Promise<PassRevocation[]>;
+
+  // Peers
+  updateDeviceState(deviceInfo: DeviceInfo): Promise<void>;
+  getDeviceState(deviceId: string): Promise<DeviceInfo | null>;
+  getAllDeviceStates(): Promise<DeviceInfo[]>;
+
+  // Broadcast retry queue
+  enqueueBroadcast(message: string): Promise<void>;
+  /** Up to 10 queued broadcasts with fewer than maxAttempts attempts, oldest first */
+  getPendingBroadcasts(maxAttempts?: number): Promise<QueuedBroadcast[]>;
+  updateBroadcastAttempt(id: number): Promise<void>;
+  removeBroadcast(id: number): Promise<void>;
+  getPendingBroadcastCount(): Promise<number>;
+
+  // Messages awaiting an ACK, and the ACKed scans
+  savePendingAck(pending: PendingMessage): Promise<void>;
+  removePendingAck(messageId: string, peerDeviceId: string): Promise<void>;
+  clearPendingAcks(): Promise<void>;
+  getAllPendingAcks(): Promise<PendingMessage[]>;
+  saveScanDeliveries(scanIds: string[], peerDeviceId: string): Promise<void>;
+  getAllScanDeliveries(): Promise<ScanDelivery[]>;
+
+  // Conflicts (one per QR code and date, newest first)
+  saveConflict(conflict: ScanConflict): Promise<void>;
+  getAllConflicts(): Promise<ScanConflict[]>;
+
+  // Settings
+  getOrCreateDeviceId(generateId: () => string): Promise<string>;
+  getSetting(key: string): Promise<string | null>;
+  saveSetting(key: string, value: string): Promise<void>;
+  saveJSONConfig(config: any): Promise<void>;
+  loadJSONConfig(): Promise<any | null>;
+
+  /** Delete everything (for testing/reset) */
+  clearAllData(): Promise<void>;
+}
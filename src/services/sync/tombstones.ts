@@ -0,0 +1,42 @@
+import { LocalState, PassState, ScanEvent, ScanTombstone } from './types';
+
+/**
+ * Voided scans (observed-remove).
+ *
+ * The scan log stays append-only: voiding a scan adds a tombstone naming the
+ * scanId that was observed, and the scan is ignored wherever it has a tombstone.
+ * Tombstones replicate like scans and may arrive before the scan they void,
+ * so a scan is inactive as soon as either side has seen the tombstone.
+ */
+
+/**
+ * Whether a scan has been voided
+ */
+export function isScanVoided(pass: PassState | undefined, scanId: string): boolean {
+  return pass?.tombstones?.some((tombstone) => tombstone.scanId === scanId) ?? false;
+}
+
+/**
+ * Scans of a pass that haven't been voided
+ */
+export function getActiveScans(pass: PassState | undefined): ScanEvent[] {
+  if (!pass) return [];
+  if (!pass.tombstones?.length) return pass.scans;
+  return pass.scans.filter((scan) => !isScanVoided(pass, scan.scanId));
+}
+
+/**
+ * Tombstones for the given scans (sent along with them so voided scans arrive voided)
+ */
+export function getTombstonesForScans(state: LocalState, scans: ScanEvent[]): ScanTombstone[] {
+  const scanIds = new Set(scans.map((scan) => scan.scanId));
+  const tombstones: ScanTombstone[] = [];
+
+  for (const qrCode in state) {
+    for (const tombstone of state[qrCode].tombstones || []) {
+      if (scanIds.has(tombstone.scanId)) tombstones.push(tombstone);
+    }
+  }
+
+  return tombstones;
+}
@@ -0,0 +1,36 @@
+/**
+ * How sync messages get between devices.
+ *
+ * A transport moves opaque bytes: signing, encryption and encoding happen in
+ * the sync layer before send and after receive, so every transport carries
+ * exactly the same payloads. Addresses are whatever the transport uses to
+ * reach a peer (an IP for UDP, a name for the in-memory hub).
+ */
+
+export interface RemoteInfo {
+  address: string;
+  port?: number;
+}
+
+export type MessageHandler = (data: Uint8Array, rinfo: RemoteInfo) => void;
+
+export interface Transport {
+  /** Open the transport (bind sockets, join the hub, ...) */
+  start(): Promise<void>;
+  /** Close the transport; no messages are delivered after this */
+  stop(): void;
+  /** Send a message to a single peer */
+  send(data: Uint8Array, address: string): Promise<void>;
+  /** Send a message to every device that can hear us (used for discovery) */
+  broadcast(data: Uint8Array): Promise<void>;
+  /** Register a handler for incoming messages; returns a function that removes it */
+  onMessage(handler: MessageHandler): () => void;
+  /** Our own address as peers see it, or null if unknown */
+  getLocalAddress(): string | null;
+  /**
+   * Register a handler for changes of our address (the phone moved to another
+   * network, or lost it: null); returns a function that removes it. Transports
+   * whose address never changes leave this out.
+   */
+  onNetworkChange?(handler: (address: string | null) => void): () => void;
+}
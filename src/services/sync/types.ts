@@ -5,23 +5,72 @@ export interface ScanEvent {
   timestamp: number;     // Milliseconds since epoch
   deviceId: string;      // Unique device identifier
   date: string;          // Date key (e.g., "14nov", "15nov")
+  seq?: number;          // Per-origin scan sequence (1, 2, 3, ...) used for version vectors
+  hlc?: HybridTimestamp; // Hybrid logical clock at scan time (ordering and time windows)
+}
+
+// Hybrid logical clock timestamp: wall time in ms plus a logical counter
+export interface HybridTimestamp {
+  wallTime: number;
+  counter: number;
 }
 
 export interface PassState {
   type: "infinite" | "one-use";
   scans: ScanEvent[];    // Append-only log of all scans
+  tombstones?: ScanTombstone[]; // Voided scans (a scan with a tombstone no longer counts)
+}
+
+// Record that a scan was voided (observed-remove: names the exact scan that was seen)
+export interface ScanTombstone {
+  scanId: string;        // Voided scan
+  qrCode: string;
+  date: string;
+  deviceId: string;      // Device that voided it
+  timestamp: number;     // When it was voided (wall time)
+  hlc?: HybridTimestamp;
 }
 
 export type LocalState = Record<string, PassState>;
 
+// Highest contiguous scan sequence held for each originating device
+export type VersionVector = Record<string, number>;
+
+// Scans of one originating device by scan sequence, from and to inclusive
+export interface ScanRange {
+  origin: string;
+  from: number;
+  to: number;
+}
+
 export interface StateMessage {
-  type: "delta" | "full-state" | "state-request" | "ack" | "heartbeat" | "state-hash";
+  type: "delta" | "full-state" | "state-request" | "ack" | "heartbeat" | "state-hash" | "merkle-nodes" | "bucket-request" | "claim" | "scan-request" | "key-update";
   messageId?: string;        // Unique message ID for ACK tracking
   ackMessageId?: string;     // ID of message being acknowledged
   deltas?: ScanEvent[];      // New scans since last broadcast
+  tombstones?: ScanTombstone[]; // Voided scans sent along with deltas
+  revocations?: PassRevocation[]; // Pass revocations (deltas and full state)
+  passDefinitions?: PassDefinition[]; // Pass definition changes (deltas and full state)
   fullState?: LocalState;    // Complete state (for full sync)
   stateHash?: string;        // Hash of current state for verification
-  sequenceNum: number;       // Per-device sequence number
+  recordsHash?: string;      // Hash of the sender's pass revocations and definitions (state-hash)
+  merkleLevel?: "qr" | "bucket";           // Tree level carried by a merkle-nodes message
+  merkleNodes?: Record<string, string>;    // Node key (qrCode or "qrCode|date") -> hash
+  merkleScope?: string[];    // QR codes covered by a bucket-level merkle-nodes message
+  buckets?: string[];        // Bucket keys ("qrCode|date") requested by a bucket-request
+  versionVector?: VersionVector; // Sender's version vector (state-request)
+  scanRanges?: ScanRange[];  // Scans asked for by a scan-request
+  scanSeq?: number;          // Highest scan sequence the sender has issued (receivers spot lost scans by it)
+  viaBroadcast?: boolean;    // Sent to everyone for discovery (a state-request answered only by one peer)
+  eventKey?: EventKey;       // New event key offered by a key-update (accept-only until the admin switches)
+  protocolVersion?: number;  // Highest wire protocol version the sender understands
+  eventId?: string;          // Event the sender is enrolled in
+  claim?: PassClaim;         // One-use pass the sender wants to accept (strict mode)
+  claimGranted?: boolean;    // Vote carried by the ACK of a claim
+  hlc?: HybridTimestamp;     // Sender's hybrid logical clock when sending
+  heartbeatEcho?: HeartbeatEcho; // Last heartbeat received from the recipient (clock estimation)
+  sequenceNum: number;       // Per-device sequence number (never goes back, even across restarts)
+  sequenceStart?: number;    // Sequence number the sender's current run started from (higher after a restart)
   deviceId: string;          // Sender's device ID
   timestamp: number;         // Message creation time
 }
@@ -34,21 +83,129 @@ export interface DeviceInfo {
   ipAddress?: string;        // Peer's IP address for unicast
   stateHash?: string;        // Last known state hash from peer
   connectionState?: 'discovering' | 'connected' | 'synced' | 'lost'; // Connection status
+  protocolVersion?: number;  // Highest wire protocol version the peer understands
+  clockOffset?: number;      // Peer clock minus ours (ms), estimated from heartbeats
+  roundTripTime?: number;    // Round-trip time to the peer (ms), estimated from heartbeats
 }
 
+// Echo of a heartbeat we received from a peer, sent back in our next heartbeat to it
+export interface HeartbeatEcho {
+  timestamp: number;         // Peer's timestamp on the heartbeat (peer clock)
+  receivedAt: number;        // When we received it (our clock)
+}
+
+// Message sent to a peer that hasn't acknowledged it yet (resent as-is until it does)
 export interface PendingMessage {
   messageId: string;
-  message: string;
-  timestamp: number;
+  message: string | Uint8Array;
+  timestamp: number;         // Last send attempt
   attempts: number;
   peerDeviceId: string;
   peerIpAddress: string;
 }
 
+export interface EventEnrollment {
+  eventId: string;           // Unique event identifier
+  key: string;               // Shared event secret
+  configVersion: number;     // Key generation (0-255), used as the key id on the wire
+}
+
+// An event key handed to paired devices during a key rotation
+export interface EventKey {
+  keyId: number;             // Config version of the key
+  key: string;               // Shared event secret
+}
+
+// Progress of a key rotation started on this device
+export interface KeyRotationStatus {
+  keyId: number;             // Key being rolled out
+  holders: string[];         // Connected peers that hold it
+  pending: string[];         // Connected peers that don't yet
+}
+
+export interface PairingResult {
+  paired: boolean;
+  reason?: string;
+  eventId?: string;
+}
+
+// A pass as listed in qr_config.json: its type, one flag per allowed date key
+// (e.g. "14nov": false) and a scan count
+export interface PassConfig {
+  type: "infinite" | "one-use";
+  count?: number;
+  [dateKey: string]: string | boolean | number | undefined;
+}
+
+// Definition of a pass (last-writer-wins per QR code). Passes from qr_config.json
+// are the baseline on every device; only changes made at the door replicate.
+export interface PassDefinition {
+  qrCode: string;
+  type: "infinite" | "one-use";
+  allowedDates: string[];    // Date keys the pass is valid on (e.g. ["14nov", "15nov"])
+  metadata?: Record<string, string>; // Free-form details (holder name, notes, ...)
+  deviceId: string;          // Admin device that made the change
+  timestamp: number;         // When it was changed (wall time)
+  hlc: HybridTimestamp;      // Orders concurrent changes
+}
+
+// Revocation status of a pass (last-writer-wins per QR code, so a pass can be restored)
+export interface PassRevocation {
+  qrCode: string;
+  revoked: boolean;
+  reason?: string;       // e.g. "Stolen", "Refunded"
+  deviceId: string;      // Admin device that made the change
+  timestamp: number;     // When it was changed (wall time)
+  hlc: HybridTimestamp;  // Orders concurrent changes
+}
+
+// Two or more devices accepted the same one-use pass on the same date
+export interface ScanConflict {
+  qrCode: string;
+  date: string;
+  winnerScanId: string;      // Scan that deterministically "won" (earliest)
+  scans: ScanEvent[];        // All competing scans, winner first
+  detectedAt: number;        // When this device first noticed the conflict
+}
+
+// Request to accept a one-use pass on a date, voted on by peers in strict mode
+export interface PassClaim {
+  qrCode: string;
+  date: string;
+}
+
+export interface PassClaimResult {
+  granted: boolean;
+  reason?: string;
+  grants: number;            // Votes in favour (including our own)
+  quorum: number;            // Votes needed
+}
+
+// What to do when peers are reachable but a majority doesn't answer in time
+export type PartitionPolicy = 'accept' | 'reject';
+
+export interface StrictModeConfig {
+  enabled: boolean;
+  timeoutMs: number;                 // How long to wait for votes
+  partitionPolicy: PartitionPolicy;
+}
+
+// How far one of our scans has spread to other devices (from their ACKs)
+export interface ScanReplicationStatus {
+  scanId: string;
+  qrCode: string;
+  date: string;
+  timestamp: number;
+  deliveredTo: number;       // Peers that acknowledged the scan
+  peerCount: number;         // Peers it should reach (reachable now or already delivered to)
+  state: 'pending' | 'partial' | 'replicated';
+}
+
 export interface ScanValidationResult {
   allowed: boolean;
   reason?: string;
   todayScansCount?: number;
+  scanId?: string;           // The recorded scan, when accepted
 }
 
 // Legacy types (for backward compatibility during migration)
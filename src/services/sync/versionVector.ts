@@ -0,0 +1,125 @@
+import { LocalState, ScanEvent, ScanRange, VersionVector } from './types';
+
+/**
+ * Build the version vector for a local state.
+ *
+ * For every originating device this is the highest sequence n such that scans
+ * 1..n from that device are all held locally. Scans above a gap are not counted,
+ * so a peer answering a state-request resends them along with the missing ones.
+ */
+export function buildVersionVector(state: LocalState): VersionVector {
+  const seqsByOrigin: Record<string, Set<number>> = {};
+
+  for (const qrCode in state) {
+    for (const scan of state[qrCode].scans) {
+      if (scan.seq === undefined) continue;
+      (seqsByOrigin[scan.deviceId] ||= new Set()).add(scan.seq);
+    }
+  }
+
+  const vector: VersionVector = {};
+  for (const origin in seqsByOrigin) {
+    const seqs = seqsByOrigin[origin];
+    let contiguous = 0;
+    while (seqs.has(contiguous + 1)) {
+      contiguous++;
+    }
+    vector[origin] = contiguous;
+  }
+
+  return vector;
+}
+
+/**
+ * Scans in our state that a peer with the given version vector does not hold yet.
+ *
+ * Scans recorded before sequences existed carry no `seq`; they are only sent to a
+ * peer with an empty vector (a fresh device). Anything else is left to Merkle
+ * reconciliation.
+ */
+export function getScansMissingFrom(state: LocalState, vector: VersionVector): ScanEvent[] {
+  const includeUnsequenced = Object.keys(vector).length === 0;
+  const missing: ScanEvent[] = [];
+
+  for (const qrCode in state) {
+    for (const scan of state[qrCode].scans) {
+      if (scan.seq === undefined) {
+        if (includeUnsequenced) missing.push(scan);
+      } else if (scan.seq > (vector[scan.deviceId] || 0)) {
+        missing.push(scan);
+      }
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Highest scan sequence issued by a device in the given state
+ */
+export function getHighestSeq(state: LocalState, originDeviceId: string): number {
+  let highest = 0;
+
+  for (const qrCode in state) {
+    for (const scan of state[qrCode].scans) {
+      if (scan.deviceId === originDeviceId && scan.seq !== undefined && scan.seq > highest) {
+        highest = scan.seq;
+      }
+    }
+  }
+
+  return highest;
+}
+
+/**
+ * Scans of a device up to sequence upTo that are missing from the given state,
+ * as ranges of consecutive sequences
+ */
+export function getMissingScanRanges(
+  state: LocalState,
+  originDeviceId: string,
+  upTo: number
+): ScanRange[] {
+  const held: number[] = [];
+
+  for (const qrCode in state) {
+    for (const scan of state[qrCode].scans) {
+      if (scan.deviceId === originDeviceId && scan.seq !== undefined && scan.seq <= upTo) {
+        held.push(scan.seq);
+      }
+    }
+  }
+
+  const ranges: ScanRange[] = [];
+  let next = 1;
+  for (const seq of held.sort((a, b) => a - b)) {
+    if (seq > next) ranges.push({ origin: originDeviceId, from: next, to: seq - 1 });
+    next = Math.max(next, seq + 1);
+  }
+  if (next <= upTo) ranges.push({ origin: originDeviceId, from: next, to: upTo });
+
+  return ranges;
+}
+
+/**
+ * Scans in our state that fall within the given ranges
+ */
+export function getScansInRanges(state: LocalState, ranges: ScanRange[]): ScanEvent[] {
+  const scans: ScanEvent[] = [];
+
+  for (const qrCode in state) {
+    for (const scan of state[qrCode].scans) {
+      if (scan.seq === undefined) continue;
+      const seq = scan.seq;
+      if (
+        ranges.some(
+          (range) => range.origin === scan.deviceId && range.from <= seq && seq <= range.to
+        )
+      ) {
+        scans.push(scan);
+      }
+    }
+  }
+
+  return scans;
+}